@@ -0,0 +1,60 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { bech32m } from '@scure/base';
+import { Pubkey } from './types';
+
+/**
+ * The Bitcoin networks an Arch node can settle on.
+ */
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+const BECH32_PREFIXES: Record<BitcoinNetwork, string> = {
+  mainnet: 'bc',
+  testnet: 'tb',
+  signet: 'tb',
+  regtest: 'bcrt',
+};
+
+/**
+ * Every `BitcoinNetwork`, e.g. to validate user input.
+ */
+export const BITCOIN_NETWORKS = Object.keys(BECH32_PREFIXES) as BitcoinNetwork[];
+
+/**
+ * Checks whether a string names a Bitcoin network.
+ * @param value The string to check.
+ * @returns True for 'mainnet', 'testnet', 'signet' and 'regtest'.
+ */
+export function isBitcoinNetwork(value: string): value is BitcoinNetwork {
+  return (BITCOIN_NETWORKS as string[]).includes(value);
+}
+
+/**
+ * Computes the taproot output key for an account with no script tree (BIP86), which is
+ * how the node derives the Bitcoin address of an account.
+ * @param pubkey The x-only public key of the account, used as the internal key.
+ * @returns The 32-byte x-only output key.
+ */
+export function taprootOutputKey(pubkey: Pubkey): Uint8Array {
+  const tag = sha256('TapTweak');
+  const tweak = secp256k1.utils.mod(
+    BigInt('0x' + bytesToHex(sha256(new Uint8Array([...tag, ...tag, ...pubkey.bytes])))),
+    secp256k1.CURVE.n
+  );
+  const internalKey = secp256k1.Point.fromHex(pubkey.bytes);
+  const outputKey = internalKey.add(secp256k1.Point.BASE.multiply(tweak));
+  return outputKey.toRawX();
+}
+
+/**
+ * Derives the taproot address of an account offline. Matches `getAccountAddress`
+ * without a round trip to the node.
+ * @param pubkey The x-only public key of the account.
+ * @param network The Bitcoin network the address is for.
+ * @returns The bech32m-encoded P2TR address.
+ */
+export function getTaprootAddress(pubkey: Pubkey, network: BitcoinNetwork = 'mainnet'): string {
+  const words = bech32m.toWords(taprootOutputKey(pubkey));
+  return bech32m.encode(BECH32_PREFIXES[network], [1, ...words]);
+}
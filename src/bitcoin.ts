@@ -0,0 +1,197 @@
+import type { AxiosInstance } from 'axios';
+import { ConfirmOptions, ProcessedTransaction } from './types';
+import { abortReason, loadAxios, sleep } from './utils';
+
+/**
+ * A transaction output as seen by a Bitcoin backend.
+ */
+export interface BitcoinOutput {
+  address?: string; // absent for outputs without a standard address, e.g. OP_RETURN
+  value: number; // in satoshis
+}
+
+/**
+ * A Bitcoin transaction as seen by a Bitcoin backend. `outputs` is indexed by vout.
+ */
+export interface BitcoinTransaction {
+  txid: string;
+  confirmations: number; // 0 while in the mempool
+  outputs: BitcoinOutput[];
+}
+
+/**
+ * BitcoinBackend is the small slice of a Bitcoin wallet and indexer the SDK needs to fund
+ * accounts. Implement it over Bitcoin Core, Esplora plus a wallet, or an in-memory regtest
+ * stand-in for tests.
+ */
+export interface BitcoinBackend {
+  /**
+   * Sends coins from the backend's wallet.
+   * @param address The destination address.
+   * @param amount The amount in satoshis.
+   * @returns A promise that resolves with the Bitcoin transaction ID.
+   */
+  sendToAddress(address: string, amount: number): Promise<string>;
+
+  /**
+   * Looks up a transaction.
+   * @param txid The Bitcoin transaction ID.
+   * @returns A promise that resolves with the transaction, or null when the backend does not know it yet.
+   */
+  getTransaction(txid: string): Promise<BitcoinTransaction | null>;
+}
+
+/**
+ * A Bitcoin transaction did not reach the wanted number of confirmations in time.
+ */
+export class BitcoinTimeoutError extends Error {
+  constructor(message: string, public readonly txid: string, public readonly timeout: number) {
+    super(message);
+    this.name = 'BitcoinTimeoutError';
+  }
+}
+
+export interface BitcoinCoreOptions {
+  username?: string;
+  password?: string;
+  wallet?: string; // routes calls to /wallet/<name> when the node has several wallets loaded
+  timeout?: number; // per-request timeout in milliseconds, defaults to 30000
+}
+
+// The parts of Bitcoin Core's `gettransaction` result with `verbose` set that the backend reads.
+interface GetTransactionResult {
+  txid: string;
+  confirmations?: number; // negative when the transaction conflicts with the chain
+  decoded: {
+    vout: Array<{ value: number; scriptPubKey?: { address?: string } }>; // value in BTC
+  };
+}
+
+interface BitcoinRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string } | null;
+}
+
+/**
+ * A BitcoinBackend over the Bitcoin Core JSON-RPC wallet API, e.g. a local regtest node.
+ * Needs the optional axios package.
+ */
+export class BitcoinCoreBackend implements BitcoinBackend {
+  private rpc: AxiosInstance;
+
+  /**
+   * Creates a new Bitcoin Core backend.
+   * @param url The URL of the Bitcoin Core RPC server.
+   * @param options The RPC credentials, wallet and timeout.
+   */
+  constructor(url: string, options: BitcoinCoreOptions = {}) {
+    const axios = loadAxios();
+    if (!axios) {
+      throw new Error('BitcoinCoreBackend needs the axios package; install it');
+    }
+    const baseURL = options.wallet ? `${url.replace(/\/$/, '')}/wallet/${encodeURIComponent(options.wallet)}` : url;
+    this.rpc = axios.create({
+      baseURL,
+      timeout: options.timeout ?? 30_000,
+      headers: { 'Content-Type': 'application/json' },
+      auth: options.username !== undefined
+        ? { username: options.username, password: options.password ?? '' }
+        : undefined,
+    });
+  }
+
+  async sendToAddress(address: string, amount: number): Promise<string> {
+    return this.call<string>('sendtoaddress', [address, Number((amount / 1e8).toFixed(8))]);
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction | null> {
+    let result: GetTransactionResult;
+    try {
+      result = await this.call<GetTransactionResult>('gettransaction', [txid, true, true]);
+    } catch (error) {
+      if ((error as { code?: unknown }).code === -5) { // invalid or non-wallet transaction id
+        return null;
+      }
+      throw error;
+    }
+    return {
+      txid: result.txid,
+      confirmations: Math.max(0, result.confirmations ?? 0),
+      outputs: result.decoded.vout.map(output => ({
+        address: output.scriptPubKey?.address,
+        value: Math.round(output.value * 1e8),
+      })),
+    };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.rpc.post<BitcoinRpcResponse<T> | undefined>('', { jsonrpc: '1.0', id: method, method, params }, {
+      validateStatus: () => true, // Bitcoin Core reports RPC errors with HTTP 500
+    });
+    const { result, error } = response.data ?? {};
+    if (error) {
+      throw Object.assign(new Error(`Bitcoin RPC ${method} failed: ${error.message}`), { code: error.code });
+    }
+    if (response.status >= 400) {
+      throw new Error(`Bitcoin RPC ${method} failed with HTTP ${response.status}`);
+    }
+    return result as T;
+  }
+}
+
+export interface WaitForConfirmationsOptions {
+  timeout?: number; // defaults to 30 minutes
+  pollInterval?: number; // defaults to 1000
+  signal?: AbortSignal;
+}
+
+/**
+ * Polls a Bitcoin backend until a transaction has enough confirmations.
+ * @param backend The Bitcoin backend.
+ * @param txid The Bitcoin transaction ID.
+ * @param confirmations The number of confirmations to wait for.
+ * @param options Timeout, poll interval and abort signal.
+ * @returns A promise that resolves with the confirmed transaction.
+ */
+export async function waitForConfirmations(
+  backend: BitcoinBackend,
+  txid: string,
+  confirmations: number,
+  options: WaitForConfirmationsOptions = {}
+): Promise<BitcoinTransaction> {
+  const { timeout = 30 * 60_000, pollInterval = 1_000, signal } = options;
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+
+    const transaction = await backend.getTransaction(txid);
+    if (transaction && transaction.confirmations >= confirmations) {
+      return transaction;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new BitcoinTimeoutError(
+        `Bitcoin transaction ${txid} did not reach ${confirmations} confirmations within ${timeout}ms`,
+        txid, timeout
+      );
+    }
+    await sleep(Math.min(pollInterval, remaining), signal);
+  }
+}
+
+export interface FundAccountOptions extends ConfirmOptions {
+  amount: number; // satoshis sent to the account address
+  confirmations?: number; // Bitcoin confirmations to wait for before creating the account, defaults to 1
+  fundingTimeout?: number; // milliseconds to wait for those confirmations, defaults to 30 minutes
+}
+
+export interface FundedAccount {
+  bitcoinTxid: string; // the funding transaction
+  vout: number; // the funding output
+  txid: string; // the Arch create-account transaction
+  processed: ProcessedTransaction;
+}
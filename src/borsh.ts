@@ -0,0 +1,332 @@
+import { AccountInfoResult, ProgramAccount, Pubkey } from './types';
+
+/**
+ * A Borsh schema. Structs keep their fields in declaration order, enums are encoded as a
+ * u8 variant index followed by the variant's payload (`null` for unit variants), and
+ * `vec`/`string` carry a u32 length prefix. Declare schemas `as const` so the encoded and
+ * decoded values are typed.
+ *
+ * @example
+ * const Deposit = { struct: { amount: 'u64', memo: { option: 'string' }, owner: 'pubkey' } } as const;
+ */
+export type Schema =
+  | 'u8' | 'u16' | 'u32' | 'u64' | 'u128'
+  | 'i8' | 'i16' | 'i32' | 'i64' | 'i128'
+  | 'bool'
+  | 'string'
+  | 'pubkey'
+  | { readonly array: Schema; readonly len: number }
+  | { readonly vec: Schema }
+  | { readonly option: Schema }
+  | { readonly struct: { readonly [field: string]: Schema } }
+  | { readonly enum: { readonly [variant: string]: Schema | null } };
+
+type SmallInt = 'u8' | 'u16' | 'u32' | 'i8' | 'i16' | 'i32';
+type BigInt64 = 'u64' | 'u128' | 'i64' | 'i128';
+type Integer = SmallInt | BigInt64;
+
+/**
+ * The value a schema decodes to. 64- and 128-bit integers decode to bigint.
+ */
+export type Infer<S> =
+  Schema extends S ? any : // a schema that is not declared `as const`
+  S extends SmallInt ? number :
+  S extends BigInt64 ? bigint :
+  S extends 'bool' ? boolean :
+  S extends 'string' ? string :
+  S extends 'pubkey' ? Pubkey :
+  S extends { readonly array: infer T } ? Infer<T>[] :
+  S extends { readonly vec: infer T } ? Infer<T>[] :
+  S extends { readonly option: infer T } ? Infer<T> | null :
+  S extends { readonly struct: infer F } ? { -readonly [K in keyof F]: Infer<F[K]> } :
+  S extends { readonly enum: infer V } ? { [K in keyof V]: { [P in K]: V[K] extends Schema ? Infer<V[K]> : null } }[keyof V] :
+  never;
+
+/**
+ * The value a schema encodes from. Like `Infer`, but 64- and 128-bit integers also accept numbers.
+ */
+export type Encodable<S> =
+  Schema extends S ? any :
+  S extends SmallInt ? number :
+  S extends BigInt64 ? bigint | number :
+  S extends 'bool' ? boolean :
+  S extends 'string' ? string :
+  S extends 'pubkey' ? Pubkey :
+  S extends { readonly array: infer T } ? Encodable<T>[] :
+  S extends { readonly vec: infer T } ? Encodable<T>[] :
+  S extends { readonly option: infer T } ? Encodable<T> | null | undefined :
+  S extends { readonly struct: infer F } ? { -readonly [K in keyof F]: Encodable<F[K]> } :
+  S extends { readonly enum: infer V } ? { [K in keyof V]: { [P in K]: V[K] extends Schema ? Encodable<V[K]> : null } }[keyof V] :
+  never;
+
+export interface DecodeOptions {
+  allowTrailingBytes?: boolean; // accounts are often allocated larger than their state, defaults to false
+}
+
+const INTEGER_SIZES: Record<Integer, number> = {
+  u8: 1, u16: 2, u32: 4, u64: 8, u128: 16,
+  i8: 1, i16: 2, i32: 4, i64: 8, i128: 16,
+};
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const BYTE = BigInt(8);
+const BYTE_MASK = BigInt(0xff);
+
+function isInteger(schema: Schema): schema is Integer {
+  return typeof schema === 'string' && schema in INTEGER_SIZES;
+}
+
+/**
+ * Encodes a value with a Borsh schema.
+ * @param schema The schema of the value.
+ * @param value The value to encode.
+ * @returns The encoded bytes.
+ */
+export function encode<const S extends Schema>(schema: S, value: Encodable<S>): Uint8Array {
+  const out: number[] = [];
+  write(schema, value, out, '$');
+  return new Uint8Array(out);
+}
+
+/**
+ * Decodes Borsh bytes with a schema.
+ * @param schema The schema of the value.
+ * @param bytes The encoded bytes.
+ * @param options Whether bytes after the value are allowed.
+ * @returns The decoded value.
+ */
+export function decode<const S extends Schema>(
+  schema: S,
+  bytes: Uint8Array | number[],
+  options: DecodeOptions = {}
+): Infer<S> {
+  const reader = new BorshReader(Uint8Array.from(bytes));
+  const value = read(schema, reader, '$');
+  if (!options.allowTrailingBytes && reader.remaining() > 0) {
+    throw new Error(`Unexpected ${reader.remaining()} trailing bytes`);
+  }
+  return value as Infer<S>;
+}
+
+/**
+ * Encodes an instruction payload for `callProgram` and `Instruction.data`.
+ * @param schema The schema of the payload.
+ * @param value The payload.
+ * @returns The encoded payload as an array of numbers.
+ */
+export function encodeInstructionData<const S extends Schema>(schema: S, value: Encodable<S>): number[] {
+  return Array.from(encode(schema, value));
+}
+
+/**
+ * Decodes the data of an account returned by `readAccountInfo`. Trailing bytes are
+ * allowed, since accounts are often allocated larger than their state.
+ * @param schema The schema of the account state.
+ * @param account The account information.
+ * @returns The decoded account state.
+ */
+export function decodeAccountData<const S extends Schema>(schema: S, account: AccountInfoResult): Infer<S> {
+  return decode(schema, account.data, { allowTrailingBytes: true });
+}
+
+/**
+ * Decodes the data of every account returned by `getProgramAccounts`.
+ * @param schema The schema of the account state.
+ * @param accounts The program accounts.
+ * @returns The accounts, each with its decoded state in `data`.
+ */
+export function decodeProgramAccounts<const S extends Schema>(
+  schema: S,
+  accounts: ProgramAccount[]
+): Array<ProgramAccount & { data: Infer<S> }> {
+  return accounts.map(account => ({ ...account, data: decodeAccountData(schema, account.account) }));
+}
+
+function write(schema: Schema, value: any, out: number[], path: string): void {
+  if (isInteger(schema)) {
+    writeInteger(schema, value, out, path);
+    return;
+  }
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'bool':
+        if (typeof value !== 'boolean') {
+          throw new Error(`Expected boolean at ${path}`);
+        }
+        out.push(value ? 1 : 0);
+        return;
+      case 'string': {
+        if (typeof value !== 'string') {
+          throw new Error(`Expected string at ${path}`);
+        }
+        const bytes = new TextEncoder().encode(value);
+        writeInteger('u32', bytes.length, out, path);
+        out.push(...bytes);
+        return;
+      }
+      case 'pubkey':
+        if (!(value instanceof Pubkey)) {
+          throw new Error(`Expected Pubkey at ${path}`);
+        }
+        out.push(...value.bytes);
+        return;
+    }
+  }
+
+  if ('array' in schema) {
+    if (!isSequence(value) || value.length !== schema.len) {
+      throw new Error(`Expected array of length ${schema.len} at ${path}`);
+    }
+    Array.from(value).forEach((item, i) => write(schema.array, item, out, `${path}[${i}]`));
+  } else if ('vec' in schema) {
+    if (!isSequence(value)) {
+      throw new Error(`Expected array at ${path}`);
+    }
+    writeInteger('u32', value.length, out, path);
+    Array.from(value).forEach((item, i) => write(schema.vec, item, out, `${path}[${i}]`));
+  } else if ('option' in schema) {
+    if (value === null || value === undefined) {
+      out.push(0);
+    } else {
+      out.push(1);
+      write(schema.option, value, out, path);
+    }
+  } else if ('struct' in schema) {
+    if (value === null || typeof value !== 'object') {
+      throw new Error(`Expected object at ${path}`);
+    }
+    for (const [field, fieldSchema] of Object.entries(schema.struct)) {
+      write(fieldSchema, value[field], out, `${path}.${field}`);
+    }
+  } else if ('enum' in schema) {
+    const keys = value !== null && typeof value === 'object' ? Object.keys(value) : [];
+    const variants = Object.keys(schema.enum);
+    const index = keys.length === 1 ? variants.indexOf(keys[0]) : -1;
+    if (index < 0) {
+      throw new Error(`Expected one of ${variants.join(', ')} at ${path}`);
+    }
+    out.push(index);
+    const variantSchema = schema.enum[variants[index]];
+    if (variantSchema !== null) {
+      write(variantSchema, value[variants[index]], out, `${path}.${variants[index]}`);
+    }
+  }
+}
+
+function writeInteger(type: Integer, value: number | bigint, out: number[], path: string): void {
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new Error(`Expected ${type} at ${path}`);
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`Expected a safe integer for ${type} at ${path}, got ${value}`);
+  }
+  const size = INTEGER_SIZES[type];
+  const bits = BigInt(size * 8);
+  const signed = type.startsWith('i');
+  const min = signed ? -(ONE << (bits - ONE)) : ZERO;
+  const max = signed ? (ONE << (bits - ONE)) - ONE : (ONE << bits) - ONE;
+  let n = BigInt(value);
+  if (n < min || n > max) {
+    throw new Error(`Value ${value} out of range for ${type} at ${path}`);
+  }
+  if (n < ZERO) {
+    n += ONE << bits;
+  }
+  for (let i = 0; i < size; i++) {
+    out.push(Number(n & BYTE_MASK));
+    n >>= BYTE;
+  }
+}
+
+function read(schema: Schema, reader: BorshReader, path: string): unknown {
+  if (isInteger(schema)) {
+    const value = reader.integer(schema, path);
+    return INTEGER_SIZES[schema] <= 4 ? Number(value) : value;
+  }
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'bool': {
+        const byte = reader.bytes(1, path)[0];
+        if (byte > 1) {
+          throw new Error(`Invalid boolean ${byte} at ${path}`);
+        }
+        return byte === 1;
+      }
+      case 'string': {
+        const length = Number(reader.integer('u32', path));
+        return new TextDecoder('utf-8', { fatal: true }).decode(reader.bytes(length, path));
+      }
+      case 'pubkey':
+        return new Pubkey(reader.bytes(32, path));
+    }
+  }
+
+  if ('array' in schema) {
+    return Array.from({ length: schema.len }, (_, i) => read(schema.array, reader, `${path}[${i}]`));
+  }
+  if ('vec' in schema) {
+    const length = Number(reader.integer('u32', path));
+    return Array.from({ length }, (_, i) => read(schema.vec, reader, `${path}[${i}]`));
+  }
+  if ('option' in schema) {
+    const tag = reader.bytes(1, path)[0];
+    if (tag > 1) {
+      throw new Error(`Invalid option tag ${tag} at ${path}`);
+    }
+    return tag === 1 ? read(schema.option, reader, path) : null;
+  }
+  if ('struct' in schema) {
+    const value: Record<string, unknown> = {};
+    for (const [field, fieldSchema] of Object.entries(schema.struct)) {
+      value[field] = read(fieldSchema, reader, `${path}.${field}`);
+    }
+    return value;
+  }
+  const variants = Object.keys(schema.enum);
+  const index = reader.bytes(1, path)[0];
+  if (index >= variants.length) {
+    throw new Error(`Invalid enum variant ${index} at ${path}`);
+  }
+  const variantSchema = schema.enum[variants[index]];
+  return {
+    [variants[index]]: variantSchema === null ? null : read(variantSchema, reader, `${path}.${variants[index]}`),
+  };
+}
+
+function isSequence(value: unknown): value is ArrayLike<unknown> {
+  return Array.isArray(value) || value instanceof Uint8Array;
+}
+
+class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bytes(length: number, path: string): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error(`Unexpected end of data at ${path}: need ${length} bytes at offset ${this.offset}`);
+    }
+    const slice = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  integer(type: Integer, path: string): bigint {
+    const size = INTEGER_SIZES[type];
+    const bytes = this.bytes(size, path);
+    let n = ZERO;
+    for (let i = size - 1; i >= 0; i--) {
+      n = (n << BYTE) | BigInt(bytes[i]);
+    }
+    const bits = BigInt(size * 8);
+    if (type.startsWith('i') && n >= ONE << (bits - ONE)) {
+      n -= ONE << bits;
+    }
+    return n;
+  }
+
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
@@ -0,0 +1,389 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { ArchRpcClient } from './index';
+import { AccountFilter, AccountMeta, Instruction, Pubkey, Status } from './types';
+import { isBitcoinNetwork } from './address';
+import { Keypair, loadKeypair, saveKeypair } from './keypair';
+import { Idl, Program } from './program';
+
+/**
+ * Where the CLI writes its output, so it can run inside tests.
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const USAGE = `Usage: arch-ts <command> [options]
+
+Commands:
+  keygen --out <file> [--mnemonic] [--force]   Generate a keypair and save it as a keyfile;
+                                               --force replaces an existing file
+  account create <txid:vout>                   Create the keypair's account from a Bitcoin UTXO
+  account show <pubkey> [--idl <file> --type <name>]
+                                               Show an account and its data
+  transfer-ownership <program-id>              Make a program the owner of the keypair's account
+  call <program-id> --data <hex|json> [--account <pubkey>[:s][:w]]... [--signer <file>]...
+                                               Call a program; JSON data is a byte array, or the
+                                               instruction's arguments with --idl and --instruction
+  block get <height|hash>                      Show a block
+  tx status <txid>                             Show a transaction's status
+  program accounts <program-id> [--data-size <n>] [--memcmp <offset>:<hex>]...
+                                               List the accounts a program owns
+
+Options:
+  -u, --url <url>           RPC endpoint, defaults to $ARCH_RPC_URL or http://localhost:9002
+  -k, --keypair <file>      Keyfile of the signing account, defaults to $ARCH_KEYPAIR
+  -o, --output <format>     json or table, defaults to table
+  -n, --network <network>   Bitcoin network for addresses, defaults to regtest
+  -w, --wait                Wait until sent transactions are processed
+  -h, --help                Show this help
+`;
+
+const OPTIONS = {
+  url: { type: 'string', short: 'u' },
+  keypair: { type: 'string', short: 'k' },
+  output: { type: 'string', short: 'o' },
+  network: { type: 'string', short: 'n' },
+  wait: { type: 'boolean', short: 'w' },
+  help: { type: 'boolean', short: 'h' },
+  out: { type: 'string' },
+  mnemonic: { type: 'boolean' },
+  force: { type: 'boolean' },
+  data: { type: 'string' },
+  account: { type: 'string', multiple: true },
+  signer: { type: 'string', multiple: true },
+  idl: { type: 'string' },
+  instruction: { type: 'string' },
+  type: { type: 'string' },
+  memcmp: { type: 'string', multiple: true },
+  'data-size': { type: 'string' },
+} as const;
+
+// Commands that take a subcommand, e.g. `account show`.
+const COMMAND_GROUPS = ['account', 'block', 'tx', 'program'];
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/**
+ * A mistake in the command line, reported with the usage text.
+ */
+class UsageError extends Error {}
+
+const consoleIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Runs the `arch-ts` command line.
+ * @param argv The arguments after the program name.
+ * @param io Where to write output and errors.
+ * @param env The environment to read defaults from.
+ * @returns A promise that resolves with the exit code: 0 on success, 1 on failure, 2 on a usage error.
+ */
+export async function runCli(argv: string[], io: CliIO = consoleIO, env: NodeJS.ProcessEnv = process.env): Promise<number> {
+  let values: Values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (error) {
+    io.stderr(`error: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (values.help || positionals.length === 0) {
+    (values.help ? io.stdout : io.stderr)(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  try {
+    const output = values.output ?? 'table';
+    if (output !== 'json' && output !== 'table') {
+      throw new UsageError(`Unknown output format ${output}`);
+    }
+    const result = await runCommand(positionals, values, env);
+    io.stdout(output === 'json' ? toJson(result) : toTable(result));
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`error: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+async function runCommand(positionals: string[], values: Values, env: NodeJS.ProcessEnv): Promise<unknown> {
+  const [command, ...rest] = positionals;
+  const grouped = COMMAND_GROUPS.includes(command);
+  const name = grouped ? `${command} ${rest[0] ?? ''}`.trim() : command;
+  const args = grouped ? rest.slice(1) : rest;
+  const network = values.network ?? 'regtest';
+  if (!isBitcoinNetwork(network)) {
+    throw new UsageError(`Unknown network ${network}, expected mainnet, testnet, signet or regtest`);
+  }
+  const client = new ArchRpcClient(values.url ?? env.ARCH_RPC_URL ?? 'http://localhost:9002');
+  const keypair = () => {
+    const path = values.keypair ?? env.ARCH_KEYPAIR;
+    if (!path) {
+      throw new UsageError(`${name} needs --keypair <file>`);
+    }
+    return loadKeypair(path);
+  };
+  const sent = async (txid: string) => {
+    if (!values.wait) {
+      return { txid };
+    }
+    const processed = await client.confirmTransaction(txid);
+    return { txid, status: Status[processed.status], bitcoin_txids: processed.bitcoin_txids };
+  };
+
+  switch (name) {
+    case 'keygen': {
+      if (!values.out) {
+        throw new UsageError('keygen needs --out <file>');
+      }
+      const mnemonic = values.mnemonic ? Keypair.generateMnemonic() : undefined;
+      const generated = mnemonic ? Keypair.fromMnemonic(mnemonic) : Keypair.generate();
+      try {
+        await saveKeypair(values.out, generated, { overwrite: values.force });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new Error(`${values.out} already exists; pass --force to replace it`);
+        }
+        throw error;
+      }
+      return { pubkey: generated.pubkey, address: generated.address(network), keyfile: values.out, ...(mnemonic && { mnemonic }) };
+    }
+    case 'account create': {
+      const [txid, vout] = argument(args, 0, 'txid:vout').split(':');
+      if (!/^[0-9a-fA-F]{64}$/.test(txid) || !/^\d+$/.test(vout ?? '')) {
+        throw new UsageError(`Expected <txid>:<vout>, got ${args[0]}`);
+      }
+      return sent(await client.createArchAccount(await keypair(), txid, Number(vout)));
+    }
+    case 'account show': {
+      const pubkey = parsePubkey(argument(args, 0, 'pubkey'));
+      const account = await client.readAccountInfo(pubkey);
+      return {
+        pubkey,
+        owner: account.owner,
+        is_executable: account.is_executable,
+        utxo: account.utxo,
+        data_length: account.data.length,
+        data: bytesToHex(Uint8Array.from(account.data)),
+        ...(values.idl ? { decoded: await decodeWithIdl(values.idl, values.type, account.data, client) } : printable(account.data)),
+      };
+    }
+    case 'transfer-ownership':
+      return sent(await client.transferAccountOwnership(await keypair(), parsePubkey(argument(args, 0, 'program-id')).toString()));
+    case 'call': {
+      const programId = parsePubkey(argument(args, 0, 'program-id'));
+      const signer = await keypair();
+      const signers = [signer, ...await Promise.all((values.signer ?? []).map(path => loadKeypair(path)))];
+      const { accounts, data } = values.idl
+        ? await idlInstruction(values.idl, required(values.instruction, '--instruction'), values, programId, client)
+        : {
+          accounts: values.account?.map(parseAccountMeta) ?? [{ pubkey: signer.pubkey, is_signer: true, is_writable: true }],
+          data: parseData(required(values.data, '--data')),
+        };
+      return sent(await client.callProgramWithAccounts(signers, programId, accounts, data));
+    }
+    case 'block get': {
+      const id = argument(args, 0, 'height|hash');
+      const height = /^\d+$/.test(id) ? Number(id) : undefined;
+      const hash = height === undefined ? id : await client.getBlockHash(height);
+      return { ...(height !== undefined && { height }), hash, ...await client.getBlock(hash) };
+    }
+    case 'tx status': {
+      const txid = argument(args, 0, 'txid');
+      const processed = await client.getProcessedTransaction(txid);
+      return {
+        txid,
+        status: Status[processed.status],
+        ...(processed.failure !== undefined && { failure: processed.failure }),
+        bitcoin_txids: processed.bitcoin_txids,
+      };
+    }
+    case 'program accounts': {
+      const programId = parsePubkey(argument(args, 0, 'program-id'));
+      const filters: AccountFilter[] = (values.memcmp ?? []).map(parseMemcmp);
+      if (values['data-size'] !== undefined) {
+        filters.push({ dataSize: parseInteger(values['data-size'], '--data-size') });
+      }
+      const accounts = await client.getProgramAccounts(programId, filters);
+      return accounts.map(({ pubkey, account }) => ({
+        pubkey,
+        is_executable: account.is_executable,
+        data_length: account.data.length,
+        data: bytesToHex(Uint8Array.from(account.data)),
+      }));
+    }
+    default:
+      throw new UsageError(`Unknown command ${positionals.join(' ')}`);
+  }
+}
+
+function argument(args: string[], index: number, name: string): string {
+  if (args[index] === undefined) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return args[index];
+}
+
+function required(value: string | undefined, option: string): string {
+  if (value === undefined) {
+    throw new UsageError(`Missing ${option}`);
+  }
+  return value;
+}
+
+function parsePubkey(value: string): Pubkey {
+  try {
+    return Pubkey.parse(value);
+  } catch {
+    throw new UsageError(`Invalid pubkey ${value}`);
+  }
+}
+
+function parseInteger(value: string, option: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`${option} must be a non-negative integer, got ${value}`);
+  }
+  return Number(value);
+}
+
+function parseJson(value: string, option: string): any {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new UsageError(`${option} is not valid JSON`);
+  }
+}
+
+/**
+ * Parses `<pubkey>[:s][:w]`, where `s` marks a signer and `w` a writable account.
+ */
+function parseAccountMeta(value: string): AccountMeta {
+  const [pubkey, ...flags] = value.split(':');
+  if (flags.some(flag => flag !== 's' && flag !== 'w')) {
+    throw new UsageError(`Invalid account flags in ${value}, expected :s and/or :w`);
+  }
+  return { pubkey: parsePubkey(pubkey), is_signer: flags.includes('s'), is_writable: flags.includes('w') };
+}
+
+function parseMemcmp(value: string): AccountFilter {
+  const [offset, bytes] = value.split(':');
+  if (bytes === undefined || !/^([0-9a-fA-F]{2})+$/.test(bytes)) {
+    throw new UsageError(`Expected --memcmp <offset>:<hex>, got ${value}`);
+  }
+  return { memcmp: { offset: parseInteger(offset, '--memcmp offset'), bytes: bytes.toLowerCase() } };
+}
+
+/**
+ * Parses instruction data given as hex (with or without 0x) or as a JSON byte array.
+ */
+function parseData(value: string): number[] {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    const bytes = parseJson(trimmed, '--data');
+    if (!Array.isArray(bytes) || !bytes.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+      throw new UsageError('--data must be a JSON array of bytes');
+    }
+    return bytes;
+  }
+  const hex = trimmed.replace(/^0x/, '');
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new UsageError('--data must be hex or a JSON array of bytes');
+  }
+  return Array.from(hexToBytes(hex));
+}
+
+async function decodeWithIdl(path: string, type: string | undefined, data: number[], client: ArchRpcClient): Promise<unknown> {
+  const accountClient = (await loadProgram(path, Pubkey.DEFAULT, client)).account[required(type, '--type')];
+  if (!accountClient) {
+    throw new UsageError(`Unknown account type ${type}`);
+  }
+  return accountClient.decode(data);
+}
+
+/**
+ * Builds an instruction from its IDL: `--data` holds the arguments as JSON and the
+ * `--account` pubkeys fill the IDL accounts in order, with any extra ones appended.
+ */
+async function idlInstruction(
+  path: string,
+  name: string,
+  values: Values,
+  programId: Pubkey,
+  client: ArchRpcClient
+): Promise<Instruction> {
+  const program = await loadProgram(path, programId, client);
+  const definition = program.idl.instructions.find(instruction => instruction.name === name);
+  if (!definition) {
+    throw new UsageError(`Unknown instruction ${name}`);
+  }
+  const metas = (values.account ?? []).map(parseAccountMeta);
+  const named: Record<string, Pubkey> = {};
+  definition.accounts.forEach((account, index) => {
+    if (metas[index]) {
+      named[account.name] = metas[index].pubkey;
+    }
+  });
+  return program.methods[name](parseJson(values.data ?? '{}', '--data'))
+    .accounts(named)
+    .remainingAccounts(metas.slice(definition.accounts.length))
+    .instruction();
+}
+
+async function loadProgram(path: string, programId: Pubkey, client: ArchRpcClient): Promise<Program> {
+  const { readFile } = await import('fs/promises');
+  const idl: Idl = parseJson(await readFile(path, 'utf8'), '--idl');
+  return new Program(idl, programId, client);
+}
+
+/**
+ * Shows account data as text too when it is printable UTF-8.
+ */
+function printable(data: number[]): { text?: string } {
+  if (data.length === 0) {
+    return {};
+  }
+  const text = Buffer.from(data).toString('utf8');
+  return /^[\x20-\x7e\t\r\n]*$/.test(text) ? { text } : {};
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), 2) + '\n';
+}
+
+function cell(value: unknown): string {
+  const text = typeof value === 'string' || value instanceof Pubkey
+    ? String(value)
+    : toJson(value).trim().replace(/\s*\n\s*/g, ' ');
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Renders a list of records as columns, and a single record as key/value rows.
+ */
+function toTable(value: unknown): string {
+  const rows: string[][] = Array.isArray(value)
+    ? value.length === 0
+      ? []
+      : [Object.keys(value[0]), ...value.map(record => Object.keys(value[0]).map(key => cell(record[key])))]
+    : Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, cell(v)]);
+  if (rows.length === 0) {
+    return '(none)\n';
+  }
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((text, column) => text.padEnd(widths[column])).join('  ').trimEnd()).join('\n') + '\n';
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
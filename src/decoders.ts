@@ -0,0 +1,258 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  AccountInfoResult,
+  AccountMeta,
+  Block,
+  Instruction,
+  Message,
+  ProcessedTransaction,
+  ProgramAccount,
+  Pubkey,
+  RuntimeTransaction,
+  SimulationResult,
+  Status
+} from './types';
+
+/**
+ * Validates and normalizes one JSON value. Throws `ResponseSchemaError` on a mismatch.
+ */
+export type Decoder<T> = (value: unknown, path?: string) => T;
+
+/**
+ * A response value did not match the shape a decoder expects. The client reports it as
+ * an `ArchDecodeError` carrying the RPC method and params.
+ */
+export class ResponseSchemaError extends Error {
+  constructor(public readonly path: string, public readonly expected: string, public readonly actual: unknown) {
+    super(`Expected ${expected} at ${path}, got ${describe(actual)}`);
+    this.name = 'ResponseSchemaError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `array of length ${value.length}`;
+  }
+  return typeof value === 'string' ? JSON.stringify(value.length > 80 ? `${value.slice(0, 80)}...` : value) : typeof value;
+}
+
+export const decodeString: Decoder<string> = (value, path = '$') => {
+  if (typeof value !== 'string') {
+    throw new ResponseSchemaError(path, 'string', value);
+  }
+  return value;
+};
+
+export const decodeNumber: Decoder<number> = (value, path = '$') => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ResponseSchemaError(path, 'number', value);
+  }
+  return value;
+};
+
+export const decodeBoolean: Decoder<boolean> = (value, path = '$') => {
+  if (typeof value !== 'boolean') {
+    throw new ResponseSchemaError(path, 'boolean', value);
+  }
+  return value;
+};
+
+/**
+ * Builds a decoder for arrays whose items all match `item`.
+ * @param item The decoder for each item.
+ * @returns The array decoder.
+ */
+export function arrayOf<T>(item: Decoder<T>): Decoder<T[]> {
+  return (value, path = '$') => {
+    if (!Array.isArray(value)) {
+      throw new ResponseSchemaError(path, 'array', value);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+function record(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ResponseSchemaError(path, 'object', value);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Decodes a byte array sent as JSON numbers.
+ */
+export const decodeBytes: Decoder<number[]> = (value, path = '$') => {
+  if (!Array.isArray(value) || !value.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+    throw new ResponseSchemaError(path, 'byte array', value);
+  }
+  return value;
+};
+
+/**
+ * Decodes a pubkey sent as 32 JSON numbers or 64 hex characters.
+ */
+export const decodePubkey: Decoder<Pubkey> = (value, path = '$') => {
+  if (value instanceof Pubkey) {
+    return value;
+  }
+  if (typeof value === 'string' && /^[0-9a-fA-F]{64}$/.test(value)) {
+    return Pubkey.fromString(value);
+  }
+  if (Array.isArray(value) && value.length === 32) {
+    return new Pubkey(Uint8Array.from(decodeBytes(value, path)));
+  }
+  throw new ResponseSchemaError(path, '32-byte pubkey', value);
+};
+
+/**
+ * Decodes a Schnorr signature sent as 64 JSON numbers or 128 hex characters into hex.
+ */
+export const decodeSignature: Decoder<string> = (value, path = '$') => {
+  if (typeof value === 'string' && /^[0-9a-fA-F]{128}$/.test(value)) {
+    return value.toLowerCase();
+  }
+  if (Array.isArray(value) && value.length === 64) {
+    return bytesToHex(Uint8Array.from(decodeBytes(value, path)));
+  }
+  throw new ResponseSchemaError(path, '64-byte signature', value);
+};
+
+const STATUS_NAMES: Record<string, Status> = {
+  Processing: Status.Processing,
+  Processed: Status.Processed,
+  Failed: Status.Failed,
+};
+
+/**
+ * Decodes a transaction status sent as the enum's number, its name, or `{ "Failed": reason }`.
+ * @returns The status and, for failed transactions, the node's reason.
+ */
+export function decodeStatus(value: unknown, path = '$'): { status: Status; failure?: string } {
+  if (typeof value === 'number' && Status[value] !== undefined) {
+    return { status: value };
+  }
+  if (typeof value === 'string' && value in STATUS_NAMES) {
+    return { status: STATUS_NAMES[value] };
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 1 && entries[0][0] === 'Failed') {
+      return { status: Status.Failed, failure: String(entries[0][1]) };
+    }
+  }
+  throw new ResponseSchemaError(path, 'transaction status', value);
+}
+
+export const decodeAccountInfo: Decoder<AccountInfoResult> = (value, path = '$') => {
+  const account = record(value, path);
+  return {
+    ...account,
+    owner: decodePubkey(account.owner, `${path}.owner`),
+    data: decodeBytes(account.data, `${path}.data`),
+    utxo: decodeString(account.utxo, `${path}.utxo`),
+    is_executable: decodeBoolean(account.is_executable, `${path}.is_executable`),
+  };
+};
+
+export const decodeProgramAccount: Decoder<ProgramAccount> = (value, path = '$') => {
+  const entry = record(value, path);
+  return {
+    ...entry,
+    pubkey: decodePubkey(entry.pubkey, `${path}.pubkey`),
+    account: decodeAccountInfo(entry.account, `${path}.account`),
+  };
+};
+
+export const decodeBlock: Decoder<Block> = (value, path = '$') => {
+  const block = record(value, path);
+  return {
+    ...block,
+    transactions: arrayOf(decodeString)(block.transactions, `${path}.transactions`),
+    previous_block_hash: decodeString(block.previous_block_hash, `${path}.previous_block_hash`),
+    transaction_count: decodeNumber(block.transaction_count, `${path}.transaction_count`),
+    timestamp: decodeNumber(block.timestamp, `${path}.timestamp`),
+    merkle_root: decodeString(block.merkle_root, `${path}.merkle_root`),
+  };
+};
+
+const decodeAccountMeta: Decoder<AccountMeta> = (value, path = '$') => {
+  const meta = record(value, path);
+  return {
+    pubkey: decodePubkey(meta.pubkey, `${path}.pubkey`),
+    is_signer: decodeBoolean(meta.is_signer, `${path}.is_signer`),
+    is_writable: decodeBoolean(meta.is_writable, `${path}.is_writable`),
+  };
+};
+
+const decodeInstruction: Decoder<Instruction> = (value, path = '$') => {
+  const instruction = record(value, path);
+  return {
+    program_id: decodePubkey(instruction.program_id, `${path}.program_id`),
+    accounts: arrayOf(decodeAccountMeta)(instruction.accounts, `${path}.accounts`),
+    data: decodeBytes(instruction.data, `${path}.data`),
+  };
+};
+
+const decodeTransactionMessage: Decoder<Message> = (value, path = '$') => {
+  const message = record(value, path);
+  return {
+    signers: arrayOf(decodePubkey)(message.signers, `${path}.signers`),
+    instructions: arrayOf(decodeInstruction)(message.instructions, `${path}.instructions`),
+  };
+};
+
+export const decodeRuntimeTransaction: Decoder<RuntimeTransaction> = (value, path = '$') => {
+  const transaction = record(value, path);
+  return {
+    version: decodeNumber(transaction.version, `${path}.version`),
+    signatures: arrayOf(decodeSignature)(transaction.signatures, `${path}.signatures`),
+    message: decodeTransactionMessage(transaction.message, `${path}.message`),
+  };
+};
+
+export const decodeProcessedTransaction: Decoder<ProcessedTransaction> = (value, path = '$') => {
+  const processed = record(value, path);
+  const { status, failure } = decodeStatus(processed.status, `${path}.status`);
+  return {
+    ...processed,
+    runtime_transaction: decodeRuntimeTransaction(processed.runtime_transaction, `${path}.runtime_transaction`),
+    status,
+    ...(failure !== undefined && { failure }),
+    bitcoin_txids: arrayOf(decodeString)(processed.bitcoin_txids, `${path}.bitcoin_txids`),
+  };
+};
+
+/**
+ * Decodes a `simulate_transaction` result. A null `error` means the transaction would succeed.
+ */
+export const decodeSimulationResult: Decoder<SimulationResult> = (value, path = '$') => {
+  const { error, ...simulation } = record(value, path);
+  return {
+    ...simulation,
+    logs: arrayOf(decodeString)(simulation.logs, `${path}.logs`),
+    ...(error !== undefined && error !== null && { error: decodeString(error, `${path}.error`) }),
+    accounts: arrayOf(decodeProgramAccount)(simulation.accounts, `${path}.accounts`),
+  };
+};
+
+/**
+ * The decoder for the result of each RPC method the client wraps. Results of other
+ * methods are passed through unchanged.
+ */
+export const RESPONSE_DECODERS: Record<string, Decoder<unknown>> = {
+  is_node_ready: decodeBoolean,
+  get_account_address: decodeString,
+  read_account_info: decodeAccountInfo,
+  get_block_count: decodeNumber,
+  start_dkg: value => value,
+  get_block_hash: decodeString,
+  get_block: decodeBlock,
+  get_processed_transaction: decodeProcessedTransaction,
+  get_program_accounts: arrayOf(decodeProgramAccount),
+  send_transaction: decodeString,
+  send_transactions: arrayOf(decodeString),
+  simulate_transaction: decodeSimulationResult,
+};
@@ -0,0 +1,173 @@
+import type { ArchRpcClient } from './index';
+import { AccountInfoResult, ConfirmOptions, Instruction, Pubkey } from './types';
+import { Signer } from './signer';
+import { BitcoinBackend } from './bitcoin';
+import { ArchRpcError, isNotFoundError } from './errors';
+import { RetryOptions, backoffDelay, defaultShouldRetry } from './retry';
+import { MAX_TRANSACTION_SIZE, encodeTransaction } from './message';
+import { SystemProgram } from './systemProgram';
+import { TransactionBuilder } from './transactionBuilder';
+import { sameBytes, sleep } from './utils';
+
+export interface DeployProgramOptions extends ConfirmOptions {
+  utxo?: { txid: string; vout: number }; // creates the program account from this UTXO when it does not exist
+  funding?: { backend: BitcoinBackend; amount: number; confirmations?: number }; // or funds a new UTXO for it
+  chunkSize?: number; // bytes per write, defaults to the most that fits in MAX_TRANSACTION_SIZE
+  retries?: number; // attempts per chunk after the first, defaults to 3
+  retryDelay?: Pick<RetryOptions, 'minDelay' | 'maxDelay' | 'jitter'>; // backoff between attempts, as for RPC retries
+  onProgress?: (progress: DeployProgress) => void;
+}
+
+export interface DeployProgress {
+  offset: number; // the chunk just handled
+  length: number;
+  written: number; // bytes now on chain
+  total: number;
+  skipped: boolean; // true when the chunk was already on chain from an earlier attempt
+}
+
+export interface DeployedProgram {
+  programId: Pubkey;
+  txids: string[]; // the transactions this call sent, in order
+  skippedChunks: number;
+}
+
+/**
+ * The largest write-bytes chunk that keeps a single-signer transaction within
+ * `MAX_TRANSACTION_SIZE`.
+ * @param account The program account, which signs its own writes.
+ * @returns The chunk size in bytes.
+ */
+export function maxWriteChunkSize(account: Pubkey): number {
+  const message = new TransactionBuilder().add(SystemProgram.writeBytes(account, 0, [])).compileMessage();
+  const overhead = encodeTransaction({ version: 0, signatures: ['00'.repeat(64)], message }).length;
+  return MAX_TRANSACTION_SIZE - overhead;
+}
+
+/**
+ * Deploys a compiled program: creates the program account if needed, writes the ELF in
+ * chunks, marks the account executable and checks the on-chain bytes against the ELF.
+ *
+ * Chunks already on chain are skipped, so calling it again after a failure resumes the
+ * deployment where it stopped.
+ * @param client The client to send with.
+ * @param signer The signer of the program account.
+ * @param elf The compiled program.
+ * @param options How to create the account, chunking, retries and confirmation.
+ * @returns A promise that resolves with the program ID and the transactions sent.
+ */
+export async function deployProgram(
+  client: ArchRpcClient,
+  signer: Signer,
+  elf: Uint8Array,
+  options: DeployProgramOptions = {}
+): Promise<DeployedProgram> {
+  const { utxo, funding, retries = 3, retryDelay = {}, onProgress, ...confirmOptions } = options;
+  const { signal } = confirmOptions;
+  const programId = signer.pubkey;
+  const chunkSize = options.chunkSize ?? maxWriteChunkSize(programId);
+  if (elf.length === 0) {
+    throw new Error('Program binary is empty');
+  }
+  if (chunkSize <= 0 || chunkSize > maxWriteChunkSize(programId)) {
+    throw new Error(`chunkSize must be between 1 and ${maxWriteChunkSize(programId)}`);
+  }
+
+  const txids: string[] = [];
+  let account = await readAccount(client, programId, signal);
+  if (!account) {
+    if (utxo) {
+      const txid = await client.createArchAccount(signer, utxo.txid, utxo.vout, { signal });
+      await client.confirmTransaction(txid, confirmOptions);
+      txids.push(txid);
+    } else if (funding) {
+      const { backend, ...fundOptions } = funding;
+      const { txid } = await client.createFundedAccount(signer, backend, { ...confirmOptions, ...fundOptions });
+      txids.push(txid);
+    } else {
+      throw new Error(`Program account ${programId.toString()} does not exist; pass utxo or funding to create it`);
+    }
+    account = { owner: SystemProgram.programId, data: [], utxo: '', is_executable: false };
+  }
+
+  if (account.is_executable) {
+    if (!sameBytes(account.data, elf)) {
+      throw new Error(`Program account ${programId.toString()} is already executable with different data`);
+    }
+    return { programId, txids, skippedChunks: Math.ceil(elf.length / chunkSize) };
+  }
+  if (account.data.length > elf.length) {
+    throw new Error(`Program account holds ${account.data.length} bytes, more than the ${elf.length}-byte binary`);
+  }
+
+  let skippedChunks = 0;
+  let written = 0;
+  for (let offset = 0; offset < elf.length; offset += chunkSize) {
+    const chunk = elf.subarray(offset, offset + chunkSize);
+    const skipped = sameBytes(account.data.slice(offset, offset + chunk.length), chunk);
+    if (skipped) {
+      skippedChunks++;
+    } else {
+      txids.push(await sendWithRetries(
+        client, signer, SystemProgram.writeBytes(programId, offset, chunk), { ...retryDelay, retries }, confirmOptions
+      ));
+    }
+    written += chunk.length;
+    onProgress?.({ offset, length: chunk.length, written, total: elf.length, skipped });
+  }
+
+  txids.push(await sendWithRetries(
+    client, signer, SystemProgram.makeExecutable(programId), { ...retryDelay, retries }, confirmOptions
+  ));
+
+  const deployed = await client.readAccountInfo(programId, { signal });
+  if (!sameBytes(deployed.data, elf)) {
+    throw new Error(`Deployed program data does not match the binary (${deployed.data.length} of ${elf.length} bytes)`);
+  }
+  if (!deployed.is_executable) {
+    throw new Error(`Program account ${programId.toString()} is not executable after deployment`);
+  }
+  return { programId, txids, skippedChunks };
+}
+
+async function readAccount(client: ArchRpcClient, pubkey: Pubkey, signal?: AbortSignal): Promise<AccountInfoResult | null> {
+  try {
+    return await client.readAccountInfo(pubkey, { signal });
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends and confirms one instruction, retrying transport failures and timeouts with backoff.
+ * Rejections from the node, such as a failed transaction, are thrown at once.
+ */
+async function sendWithRetries(
+  client: ArchRpcClient,
+  signer: Signer,
+  instruction: Instruction,
+  retry: RetryOptions,
+  confirmOptions: ConfirmOptions
+): Promise<string> {
+  const { retries = 0 } = retry;
+  const transaction = await new TransactionBuilder().add(instruction).sign([signer]);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // Resending the same signed transaction is idempotent: it has the same txid.
+      const txid = await client.sendTransaction(transaction, { signal: confirmOptions.signal, idempotent: true });
+      await client.confirmTransaction(txid, confirmOptions);
+      return txid;
+    } catch (error) {
+      const transient = error instanceof ArchRpcError && defaultShouldRetry(error, {
+        method: 'send_transaction', params: transaction, attempt, idempotent: true,
+      });
+      if (attempt >= retries || confirmOptions.signal?.aborted || !transient) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, retry), confirmOptions.signal);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import type { ProcessedTransaction } from './types';
+
+/**
+ * Base class for every failure of an RPC call. Carries the method and params of
+ * the offending request so callers can log and branch without string matching.
+ */
+export class ArchRpcError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, public readonly method: string, public readonly params: unknown, cause?: unknown) {
+    super(message);
+    this.name = 'ArchRpcError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request never produced an HTTP response (connection refused, DNS failure, reset, ...).
+ */
+export class ArchTransportError extends ArchRpcError {
+  constructor(message: string, method: string, params: unknown, cause?: unknown) {
+    super(message, method, params, cause);
+    this.name = 'ArchTransportError';
+  }
+}
+
+/**
+ * The node answered with a non-2xx HTTP status and no JSON-RPC error body.
+ */
+export class ArchHttpError extends ArchRpcError {
+  constructor(
+    message: string,
+    method: string,
+    params: unknown,
+    public readonly status: number,
+    public readonly body?: unknown,
+    cause?: unknown
+  ) {
+    super(message, method, params, cause);
+    this.name = 'ArchHttpError';
+  }
+}
+
+/**
+ * The node returned a JSON-RPC error object.
+ */
+export class ArchJsonRpcError extends ArchRpcError {
+  constructor(
+    message: string,
+    method: string,
+    params: unknown,
+    public readonly code: number,
+    public readonly data?: unknown
+  ) {
+    super(message, method, params);
+    this.name = 'ArchJsonRpcError';
+  }
+}
+
+/**
+ * The request or operation did not complete within its time limit.
+ */
+export class ArchTimeoutError extends ArchRpcError {
+  constructor(message: string, method: string, params: unknown, public readonly timeout?: number, cause?: unknown) {
+    super(message, method, params, cause);
+    this.name = 'ArchTimeoutError';
+  }
+}
+
+/**
+ * The node's response could not be understood as a JSON-RPC response.
+ */
+export class ArchDecodeError extends ArchRpcError {
+  constructor(message: string, method: string, params: unknown, public readonly response?: unknown) {
+    super(message, method, params);
+    this.name = 'ArchDecodeError';
+  }
+}
+
+/**
+ * A block did not build on the block streamed before it: the chain was reorganized.
+ * Roll back to a checkpoint below `height` and resume from there.
+ */
+export class ArchReorgError extends ArchRpcError {
+  constructor(
+    message: string,
+    method: string,
+    params: unknown,
+    public readonly height: number,
+    public readonly expectedPreviousHash: string,
+    public readonly actualPreviousHash: string
+  ) {
+    super(message, method, params);
+    this.name = 'ArchReorgError';
+  }
+}
+
+/**
+ * The node processed a transaction and it failed. `transaction.failure` holds the node's reason.
+ */
+export class ArchTransactionFailedError extends ArchRpcError {
+  constructor(message: string, method: string, params: unknown, public readonly transaction: ProcessedTransaction) {
+    super(message, method, params);
+    this.name = 'ArchTransactionFailedError';
+  }
+}
+
+// The error code the node uses when a requested transaction or account does not exist.
+const NOT_FOUND_CODE = 404;
+
+/**
+ * Checks whether an error means the requested account or transaction does not exist (yet).
+ * Only the node's not-found code counts; "Method not found" (-32601) and other errors
+ * whose message says "not found" do not.
+ * @param error The error to check.
+ * @returns True for the node's "not found" JSON-RPC errors.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof ArchJsonRpcError && error.code === NOT_FOUND_CODE;
+}
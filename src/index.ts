@@ -1,6 +1,3 @@
-import axios, { AxiosInstance } from 'axios';
-import * as secp256k1 from '@noble/secp256k1';
-import { sha256 } from '@noble/hashes/sha256';
 import { Buffer } from 'buffer';
 import {
   NodePubkey,
@@ -13,186 +10,486 @@ import {
   Pubkey,
   AccountMeta,
   AccountFilter,
-  ProgramAccount
+  ProgramAccount,
+  ConfirmOptions,
+  Status,
+  ArchRpcClientOptions,
+  CallOptions,
+  AutoBatchOptions,
+  RpcRequest,
+  RpcBatchResult,
+  BlockStreamOptions,
+  BlockWithTransactions,
+  SimulationResult
 } from './types';
+import { Signer } from './signer';
+import { encodeMessage, signMessage, verifyTransaction } from './message';
+import { TransactionBuilder } from './transactionBuilder';
+import { SystemProgram } from './systemProgram';
+import { BitcoinBackend, FundAccountOptions, FundedAccount, waitForConfirmations } from './bitcoin';
+import { abortReason, sleep } from './utils';
+import { Subscription, SubscriptionHub, SubscriptionOptions } from './subscriptions';
+import { RESPONSE_DECODERS, ResponseSchemaError } from './decoders';
+import { DeployProgramOptions, DeployedProgram, deployProgram } from './deploy';
+import { PreflightOptions, PreflightReport, preflightTransaction } from './preflight';
+import {
+  ArchDecodeError,
+  ArchHttpError,
+  ArchReorgError,
+  ArchRpcError,
+  ArchTimeoutError,
+  ArchTransactionFailedError,
+  ArchTransportError,
+  isNotFoundError
+} from './errors';
+import { RetryOptions, backoffDelay, defaultShouldRetry } from './retry';
+import { Logger, Middleware, RpcRequestContext, silentLogger } from './middleware';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Transport, TransportHttpError, TransportTimeoutError, createHttpTransport } from './transport';
+import { createJsonRpcRequest, matchBatchResponses, readJsonRpcResult, toJsonRpcError } from './jsonRpc';
+
+interface QueuedRequest {
+  context: RpcRequestContext;
+  resolve(body: unknown): void;
+  reject(error: unknown): void;
+}
 
 /**
  * ArchRpcClient provides methods to interact with the Arch blockchain network.
  */
 export class ArchRpcClient {
-  private rpc: AxiosInstance;
+  private transport: Transport;
+  private timeout?: number;
+  private retry: RetryOptions;
+  private logger: Logger;
+  private middleware: Middleware[];
+  private autoBatch?: AutoBatchOptions;
+  private batchQueue: QueuedRequest[] = [];
+  private batchTimer?: ReturnType<typeof setTimeout>;
+  private nextId = 1;
+  private subscriptionOptions: SubscriptionOptions;
+  private subscriptionHub?: SubscriptionHub;
 
   /**
    * Creates a new instance of ArchRpcClient.
-   * @param url The URL of the Arch RPC endpoint.
+   * @param endpoint The URL of the Arch RPC endpoint, sent over axios when it is installed and fetch
+   *   otherwise, or a transport.
+   * @param options Per-request timeout, retry policy, logger, middleware and automatic batching.
+   *   The timeout configures the transport built for a URL; a transport passed in keeps its own.
    */
-  constructor(url: string) {
-    this.rpc = axios.create({
-      baseURL: url,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  constructor(endpoint: string | Transport, options: ArchRpcClientOptions = {}) {
+    this.timeout = options.timeout;
+    this.autoBatch = options.autoBatch === true ? {} : options.autoBatch || undefined;
+    this.retry = options.retry ?? {};
+    this.logger = options.logger ?? silentLogger;
+    this.middleware = [...(options.middleware ?? [])];
+    this.subscriptionOptions = options.subscriptions ?? {};
+    this.transport = typeof endpoint === 'string'
+      ? createHttpTransport(endpoint, { timeout: options.timeout })
+      : endpoint;
+  }
+
+  /**
+   * Releases the connections held by the client's transport, e.g. a WebSocket.
+   */
+  close(): void {
+    this.transport.close?.();
+  }
+
+  /**
+   * Appends a middleware to the request chain.
+   * @param middleware The hooks to run on every RPC attempt.
+   * @returns The client, for chaining.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   // RPC Communication Methods
 
   /**
-   * Sends an RPC call to the Arch network.
+   * Sends a raw RPC call, for node methods the client does not wrap.
    * @param method The RPC method name.
    * @param params The parameters for the RPC method.
+   * @param options The abort signal and idempotency of this call.
    * @returns A promise that resolves with the result of the RPC call.
    */
-  private async call<T>(method: string, params: any): Promise<T> {
-    const payload = {
-      jsonrpc: '2.0',
-      id: Date.now().toString(),
-      method,
-      params
-    };
-    console.log(payload);
-    const response = await this.rpc.post('', payload);
-    if (response.data.error) {
-      throw new Error(response.data.error.message);
+  async request<T>(method: string, params: any, options?: CallOptions): Promise<T> {
+    return this.call<T>(method, params, options);
+  }
+
+  /**
+   * Sends an RPC call to the Arch network, retrying transient failures according to the retry policy.
+   * Every RPC method goes through here, so subclasses can override it to change routing.
+   * @param method The RPC method name.
+   * @param params The parameters for the RPC method.
+   * @param options The abort signal and idempotency of this call.
+   * @returns A promise that resolves with the result of the RPC call.
+   * @throws {ArchRpcError} A subclass describing whether the transport, the HTTP layer, the node
+   *                        or the response decoding failed.
+   */
+  protected async call<T>(method: string, params: any, options: CallOptions = {}): Promise<T> {
+    const { retries = 0, shouldRetry = defaultShouldRetry } = this.retry;
+    const { signal, idempotent = false } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, params, attempt, signal);
+      } catch (error) {
+        if (
+          !(error instanceof ArchRpcError) ||
+          attempt >= retries ||
+          !shouldRetry(error, { method, params, attempt, idempotent })
+        ) {
+          throw error;
+        }
+        const delay = backoffDelay(attempt, this.retry);
+        this.logger.warn('Retrying RPC call', { method, attempt: attempt + 1, delay, error: error.name });
+        await sleep(delay, signal);
+      }
     }
-    return response.data.result;
   }
 
-  // Account Creation and Management Methods
+  /**
+   * Sends several RPC calls in a single JSON-RPC batch request. Responses are matched
+   * to requests by id, and each call succeeds or fails on its own. Batches are not retried.
+   * @param requests The calls to send.
+   * @param options The abort signal for the batch.
+   * @returns A promise that resolves with one result per request, in request order.
+   */
+  async batch(requests: RpcRequest[], options: CallOptions = {}): Promise<RpcBatchResult[]> {
+    if (options.signal?.aborted) {
+      throw abortReason(options.signal);
+    }
+    const contexts = requests.map(({ method, params }) => this.createContext(method, params, 0));
+    for (const context of contexts) {
+      await this.runBeforeSend(context);
+    }
+
+    let bodies: unknown[] | undefined;
+    let failure: unknown;
+    try {
+      bodies = await this.postBatch(contexts, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortReason(options.signal);
+      }
+      failure = error;
+    }
+
+    return Promise.all(contexts.map(async (context, index): Promise<RpcBatchResult> => {
+      try {
+        if (!bodies) {
+          throw this.toRpcError(failure, context.method, context.params);
+        }
+        return { ok: true, result: await this.unwrap(context, bodies[index]) };
+      } catch (error) {
+        if (!(error instanceof ArchRpcError)) {
+          throw error;
+        }
+        await this.runOnError(context, error);
+        return { ok: false, error };
+      }
+    }));
+  }
 
   /**
-   * Creates a new Arch account.
-   * @param privateKey The private key of the account creator.
-   * @param txid The transaction ID associated with the account creation.
-   * @param vout The output index in the transaction.
-   * @returns A promise that resolves with the transaction ID of the account creation.
+   * Performs a single JSON-RPC request attempt, running it through the middleware chain.
+   * @param method The RPC method name.
+   * @param params The parameters for the RPC method.
+   * @param attempt The zero-based attempt number.
+   * @param signal An optional signal that cancels the request.
+   * @returns A promise that resolves with the result of the RPC call.
    */
-  async createArchAccount(privateKey: Uint8Array, txid: string, vout: number): Promise<string> {
-    const publicKey = secp256k1.getPublicKey(privateKey, true);
-    const pubkey = new Pubkey(publicKey.slice(1)); // Remove the first byte (0x02 or 0x03)
+  private async send<T>(method: string, params: any, attempt: number, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    const context = this.createContext(method, params, attempt);
 
-    const instruction = this.createCreateAccountInstruction(pubkey, txid, vout);
-    const message = this.createMessage([pubkey], [instruction]);
-    const signatures = await this.signMessage(message, [privateKey]);
-    
-    const transaction = {
-      version: 0,
-      signatures: signatures,
-      message: message
+    try {
+      await this.runBeforeSend(context);
+      const body = this.autoBatch
+        ? await this.enqueue(context, signal)
+        : await this.post(context, signal);
+      return await this.unwrap<T>(context, body);
+    } catch (error) {
+      if (error instanceof ArchRpcError) {
+        await this.runOnError(context, error);
+      }
+      throw error;
+    }
+  }
+
+  private createContext(method: string, params: any, attempt: number): RpcRequestContext {
+    return {
+      method,
+      params,
+      payload: createJsonRpcRequest(String(this.nextId++), method, params),
+      headers: {},
+      attempt,
+      metadata: {},
     };
+  }
 
-    return this.sendTransaction(transaction);
+  private async runBeforeSend(context: RpcRequestContext): Promise<void> {
+    for (const middleware of this.middleware) {
+      await middleware.beforeSend?.(context);
+    }
+    this.logger.debug('RPC request', { method: context.method, id: context.payload.id, attempt: context.attempt });
   }
 
-  // Transfer ownership of an account to a program
-  async transferAccountOwnership(privateKey: Uint8Array, programPubkeyHex: string): Promise<string> {
-    const publicKey = secp256k1.getPublicKey(privateKey, true);
-    const accountPubkey = new Pubkey(publicKey.slice(1));
+  private async runOnError(context: RpcRequestContext, error: ArchRpcError): Promise<void> {
+    this.logger.debug('RPC request failed', {
+      method: context.method,
+      id: context.payload.id,
+      attempt: context.attempt,
+      error: error.name,
+    });
+    for (const middleware of this.middleware) {
+      await middleware.onError?.(context, error);
+    }
+  }
 
-    // Convert programPubkey from hex string to Uint8Array
-    const programPubkeyBytes = hexToBytes(programPubkeyHex);
-    const programPubkey = new Pubkey(programPubkeyBytes);
-    
-    const instruction = this.createTransferAccountOwnershipInstruction(accountPubkey, programPubkey);
-    const message = this.createMessage([accountPubkey], [instruction]);
-    const signatures = await this.signMessage(message, [privateKey]);
-
-    const transaction = {
-      version: 0,
-      signatures: signatures,
-      message: message
-    };
+  /**
+   * Posts a single request and returns the raw response body.
+   */
+  private async post(context: RpcRequestContext, signal?: AbortSignal): Promise<unknown> {
+    try {
+      return await this.transport.request({ body: context.payload, headers: context.headers, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw abortReason(signal);
+      }
+      throw this.toRpcError(error, context.method, context.params);
+    }
+  }
 
-    return this.sendTransaction(transaction);
+  /**
+   * Posts several requests as one JSON-RPC batch and returns the response body for each
+   * request, matched by id. Throws the raw transport error if the request fails.
+   */
+  private async postBatch(contexts: RpcRequestContext[], signal?: AbortSignal): Promise<unknown[]> {
+    const headers = Object.assign({}, ...contexts.map(context => context.headers));
+    const payloads = contexts.map(context => context.payload);
+    const body = await this.transport.request({ body: payloads, headers, signal });
+    return matchBatchResponses(payloads, body);
   }
 
-  // Call a program by creating a custom instruction using the array of accounts and data we send
-  async callProgram(privateKey: Uint8Array, programPubkeyHex: string, data: number[]): Promise<string> {
-    const publicKey = secp256k1.getPublicKey(privateKey, true);
-    const accountPubkey = new Pubkey(publicKey.slice(1));
+  /**
+   * Queues a request for the next automatic batch.
+   */
+  private enqueue(context: RpcRequestContext, signal?: AbortSignal): Promise<unknown> {
+    const { maxSize = 100, window = 0 } = this.autoBatch!;
 
-    // Convert programPubkey from hex string to Uint8Array
-    const programPubkeyBytes = hexToBytes(programPubkeyHex);
-    const programPubkey = new Pubkey(programPubkeyBytes);
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+      // The request stays in the batch; only this caller stops waiting for it.
+      const onAbort = () => reject(abortReason(signal!));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const settle = <A>(fn: (arg: A) => void) => (arg: A) => {
+        signal?.removeEventListener('abort', onAbort);
+        fn(arg);
+      };
 
-    const instruction = this.createCallProgramInstruction(accountPubkey, programPubkey, data);
-    const message = this.createMessage([accountPubkey], [instruction]);
-    const signatures = await this.signMessage(message, [privateKey]);
-    const transaction = {
-      version: 0,
-      signatures: signatures,
-      message: message
-    };
-    return this.sendTransaction(transaction);
+      this.batchQueue.push({ context, resolve: settle(resolve), reject: settle(reject) });
+      if (this.batchQueue.length >= maxSize) {
+        this.flushBatch();
+      } else if (!this.batchTimer) {
+        this.batchTimer = setTimeout(() => this.flushBatch(), window);
+      }
+    });
   }
 
-  private createCallProgramInstruction(accountPubkey: Pubkey, programPubkey: Pubkey, data: number[]): Instruction {
-    return {
-      program_id: programPubkey,
-      accounts: [
-        {
-          pubkey: accountPubkey,
-          is_signer: true,
-          is_writable: true,
-        }
-      ],
-      data: data,
-    };
+  private flushBatch(): void {
+    clearTimeout(this.batchTimer);
+    this.batchTimer = undefined;
+    const queued = this.batchQueue.splice(0);
+
+    if (queued.length === 1) {
+      const [{ context, resolve, reject }] = queued;
+      this.post(context).then(resolve, reject);
+      return;
+    }
+    this.postBatch(queued.map(entry => entry.context)).then(
+      bodies => queued.forEach((entry, index) => entry.resolve(bodies[index])),
+      error => queued.forEach(entry => entry.reject(this.toRpcError(error, entry.context.method, entry.context.params)))
+    );
   }
 
   /**
-   * Creates an instruction for creating a new account.
-   * @param pubkey The public key of the new account.
-   * @param txid The transaction ID associated with the account creation.
-   * @param vout The output index in the transaction.
-   * @returns The create account instruction.
+   * Runs the afterReceive hooks and extracts the result from a JSON-RPC response body.
    */
-  private createCreateAccountInstruction(pubkey: Pubkey, txid: string, vout: number): Instruction {
-    return {
-      program_id: Pubkey.systemProgram(),
-      accounts: [{
-        pubkey: pubkey,
-        is_signer: true,
-        is_writable: true,
-      }],
-      data: this.encodeCreateAccountData(txid, vout),
-    };
+  private async unwrap<T>(context: RpcRequestContext, body: unknown): Promise<T> {
+    const { method, params, payload } = context;
+    if (body === undefined) {
+      throw new ArchDecodeError(`No response for ${method} (id ${payload.id}) in batch`, method, params, body);
+    }
+
+    for (const middleware of this.middleware) {
+      await middleware.afterReceive?.(context, body);
+    }
+    this.logger.debug('RPC response', { method, id: payload.id });
+
+    const result = readJsonRpcResult<unknown>(body, method, params);
+    const decoder = RESPONSE_DECODERS[method];
+    if (!decoder) {
+      return result as T;
+    }
+    try {
+      return decoder(result) as T;
+    } catch (error) {
+      if (error instanceof ResponseSchemaError) {
+        throw new ArchDecodeError(`Unexpected ${method} response: ${error.message}`, method, params, result);
+      }
+      throw error;
+    }
   }
 
-  private createTransferAccountOwnershipInstruction(accountPubkey: Pubkey, programPubkey: Pubkey ): Instruction {
-    return {
-      program_id: Pubkey.systemProgram(),
-      accounts: [{
-        pubkey: accountPubkey,
-        is_signer: true,
-        is_writable: true,
-      }],
-      data: this.encodeTransferAccountOwnershipData(programPubkey),
-    };
+  /**
+   * Converts an error thrown by the transport into the matching ArchRpcError subclass.
+   */
+  private toRpcError(error: any, method: string, params: any): ArchRpcError {
+    if (error instanceof ArchRpcError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof TransportTimeoutError) {
+      return new ArchTimeoutError(
+        `${method} timed out: ${message}`, method, params, error.timeout ?? this.timeout, error.cause ?? error
+      );
+    }
+    if (error instanceof TransportHttpError) {
+      const body: any = error.body;
+      if (body && typeof body === 'object' && body.error) {
+        return toJsonRpcError(body.error, method, params);
+      }
+      return new ArchHttpError(
+        `${method} failed with HTTP ${error.status}`, method, params, error.status, body, error.cause ?? error
+      );
+    }
+    return new ArchTransportError(`${method} failed: ${message}`, method, params, error);
   }
 
+  // Account Creation and Management Methods
+
   /**
-   * Encodes the data for creating a new account.
+   * Creates a new Arch account.
+   * @param signer The signer of the account being created.
    * @param txid The transaction ID associated with the account creation.
    * @param vout The output index in the transaction.
-   * @returns An array of numbers representing the encoded data.
+   * @param options The abort signal and idempotency of the send.
+   * @returns A promise that resolves with the transaction ID of the account creation.
+   */
+  async createArchAccount(signer: Signer, txid: string, vout: number, options?: CallOptions): Promise<string> {
+    const pubkey = signer.pubkey;
+
+    const instruction = SystemProgram.createAccount(pubkey, txid, vout);
+    const transaction = await new TransactionBuilder().add(instruction).sign([signer]);
+
+    return this.sendTransaction(transaction, options);
+  }
+
+  /**
+   * Funds and creates an Arch account end to end: sends a UTXO to the account's address,
+   * waits for it to confirm on Bitcoin, then creates the account from it and waits for
+   * the node to process the creation.
+   * @param signer The signer of the account being created.
+   * @param backend The Bitcoin backend that funds the UTXO.
+   * @param options The amount, Bitcoin confirmations and timeouts.
+   * @returns A promise that resolves with the funding outpoint and the processed creation.
+   * @throws The error of the account creation, with `bitcoinTxid` and `vout` attached when the
+   *   funding already confirmed, so the creation can be retried without sending coins again.
+   */
+  async createFundedAccount(signer: Signer, backend: BitcoinBackend, options: FundAccountOptions): Promise<FundedAccount> {
+    const { amount, confirmations = 1, fundingTimeout, ...confirmOptions } = options;
+    const { pollInterval, signal } = confirmOptions;
+
+    const address = await this.getAccountAddress(signer.pubkey, { signal });
+    const bitcoinTxid = await backend.sendToAddress(address, amount);
+    const funding = await waitForConfirmations(backend, bitcoinTxid, confirmations, {
+      timeout: fundingTimeout, pollInterval, signal,
+    });
+
+    const vout = funding.outputs.findIndex(output => output.address === address);
+    if (vout < 0) {
+      throw new Error(`Bitcoin transaction ${bitcoinTxid} has no output to ${address}`);
+    }
+
+    try {
+      const txid = await this.createArchAccount(signer, bitcoinTxid, vout, { signal });
+      const processed = await this.confirmTransaction(txid, confirmOptions);
+      return { bitcoinTxid, vout, txid, processed };
+    } catch (error) {
+      if (error instanceof Error) {
+        Object.assign(error, { bitcoinTxid, vout });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deploys a compiled program to the signer's account. See `deployProgram` in `./deploy`.
+   * @param signer The signer of the program account.
+   * @param elf The compiled program.
+   * @param options How to create the account, chunking, retries and confirmation.
+   * @returns A promise that resolves with the program ID and the transactions sent.
    */
-  private encodeCreateAccountData(txid: string, vout: number): number[] {
-    const buffer = new ArrayBuffer(37);
-    const view = new DataView(buffer);
-    view.setUint8(0, 0); // Instruction type (0 for CreateAccount)
-    const txidBytes = hexToBytes(txid);
-    new Uint8Array(buffer).set(txidBytes, 1);
-    view.setUint32(33, vout, true);
-    return Array.from(new Uint8Array(buffer));  
+  async deployProgram(signer: Signer, elf: Uint8Array, options?: DeployProgramOptions): Promise<DeployedProgram> {
+    return deployProgram(this, signer, elf, options);
+  }
+
+  // Transfer ownership of an account to a program
+  async transferAccountOwnership(signer: Signer, programPubkeyHex: string, options?: CallOptions): Promise<string> {
+    const accountPubkey = signer.pubkey;
+
+    // Convert programPubkey from hex string to Uint8Array
+    const programPubkeyBytes = hexToBytes(programPubkeyHex);
+    const programPubkey = new Pubkey(programPubkeyBytes);
+    
+    const instruction = SystemProgram.transferAccountOwnership(accountPubkey, programPubkey);
+    const transaction = await new TransactionBuilder().add(instruction).sign([signer]);
+
+    return this.sendTransaction(transaction, options);
   }
 
-  private encodeTransferAccountOwnershipData(programPubkey: Pubkey): number[] {
-    const buffer = new ArrayBuffer(33);
-    const view = new DataView(buffer);
-    view.setUint8(0, 3); // Instruction type (3 for TransferAccountOwnership)
-    const programPubkeyBytes = Array.from(programPubkey.bytes);
-    new Uint8Array(buffer).set(programPubkeyBytes, 1);
-    return Array.from(new Uint8Array(buffer));
+  // Call a program by creating a custom instruction using the array of accounts and data we send
+  async callProgram(signer: Signer, programPubkeyHex: string, data: number[], options?: CallOptions): Promise<string> {
+    const accounts = [{ pubkey: signer.pubkey, is_signer: true, is_writable: true }];
+    return this.callProgramWithAccounts([signer], programPubkeyHex, accounts, data, options);
+  }
+
+  /**
+   * Calls a program with an explicit list of accounts, e.g. extra readonly or writable
+   * accounts, program-derived addresses or several signers.
+   * @param signers The signers for every account flagged `is_signer`.
+   * @param programId The program to call, as a Pubkey or hex string.
+   * @param accounts The accounts passed to the program, in order.
+   * @param data The instruction data.
+   * @param options The abort signal and idempotency of the send.
+   * @returns A promise that resolves with the transaction ID.
+   */
+  async callProgramWithAccounts(
+    signers: Signer[],
+    programId: Pubkey | string,
+    accounts: AccountMeta[],
+    data: number[],
+    options?: CallOptions
+  ): Promise<string> {
+    const programPubkey = typeof programId === 'string' ? new Pubkey(hexToBytes(programId)) : programId;
+    const transaction = await new TransactionBuilder()
+      .addInstruction(programPubkey, accounts, data)
+      .sign(signers);
+
+    const { invalid } = await verifyTransaction(transaction);
+    if (invalid.length > 0) {
+      throw new Error(`Invalid signatures for ${invalid.map(pubkey => pubkey.toString()).join(', ')}`);
+    }
+    return this.sendTransaction(transaction, options);
   }
 
   // Transaction Methods
@@ -244,60 +541,137 @@ export class ArchRpcClient {
   /**
    * Sends multiple transactions to the Arch network.
    * @param transactions An array of transactions to send.
+   * @param options The abort signal, and whether the send may be retried.
    * @returns A promise that resolves with an array of transaction IDs.
    */
-  async sendTransactions(transactions: RuntimeTransaction[]): Promise<string[]> {
+  async sendTransactions(transactions: RuntimeTransaction[], options?: CallOptions): Promise<string[]> {
     const serializedTransactions = transactions.map(tx => this.serializeTransaction(tx));
-    return this.call<string[]>('send_transactions', serializedTransactions);
+    return this.call<string[]>('send_transactions', serializedTransactions, options);
   }
 
-  async sendTransaction(transaction: RuntimeTransaction): Promise<string> {
+  /**
+   * Sends a transaction to the Arch network.
+   * @param transaction The signed transaction to send.
+   * @param options The abort signal, and whether the send may be retried. Pass `idempotent: true`
+   *                to let the retry policy resend the same signed transaction.
+   * @returns A promise that resolves with the transaction ID.
+   */
+  async sendTransaction(transaction: RuntimeTransaction, options?: CallOptions): Promise<string> {
     const serializedTransaction = this.serializeTransaction(transaction);    
-    return this.call<string>('send_transaction', serializedTransaction);
+    return this.call<string>('send_transaction', serializedTransaction, options);
   }
 
   /**
-   * Signs a transaction message with the provided private keys.
-   * @param message The transaction message to sign.
-   * @param signers An array of private keys to sign the message with.
-   * @returns A promise that resolves with the signed transaction.
+   * Runs a transaction on the node without committing it. Nodes without `simulate_transaction`
+   * reject with an `ArchJsonRpcError`.
+   * @param transaction The signed transaction to simulate.
+   * @param options The abort signal for this call.
+   * @returns A promise that resolves with the logs, the failure reason if any, and the accounts it would change.
    */
-  private async signTransaction(message: Message, signers: Uint8Array[]): Promise<RuntimeTransaction> {
-    const encodedMessage = this.encodeMessage(message);
-    const messageHash = sha256(sha256(new Uint8Array(encodedMessage)));
-    
-    const signatures = await Promise.all(signers.map(async (signer) => {
-      if (!secp256k1.utils.isValidPrivateKey(signer)) {
-        throw new Error('Invalid private key');
-      }
-      const signature = await secp256k1.schnorr.sign(messageHash, signer);
-      return Buffer.from(signature).toString('base64');
-    }));
-  
-    return { version: 0, signatures, message };
+  async simulateTransaction(transaction: RuntimeTransaction, options?: CallOptions): Promise<SimulationResult> {
+    return this.call<SimulationResult>('simulate_transaction', this.serializeTransaction(transaction), options);
   }
 
+  /**
+   * Checks a transaction before sending it: its encoded size against the protocol limits, its
+   * account metas and signatures, and, when the node supports it, a simulation.
+   * @param transaction The signed transaction to check.
+   * @param options Whether to simulate, and the abort signal.
+   * @returns A promise that resolves with a report of the size, errors, logs and changed accounts.
+   */
+  async preflightTransaction(transaction: RuntimeTransaction, options?: PreflightOptions): Promise<PreflightReport> {
+    return preflightTransaction(this, transaction, options);
+  }
 
-  // SignMessage 
-  async signMessage(message: Message, signers: Uint8Array[]): Promise<string[]> {
-    const encodedMessage = this.encodeMessage(message);
-    const firstHash = sha256(new Uint8Array(encodedMessage));    
-    const messageHash = sha256(bytesToHex(firstHash));
-    
-    const signatures = await Promise.all(signers.map(async (signer, index) => {      
-      
-      if (!secp256k1.utils.isValidPrivateKey(signer)) {
-        console.error(`Invalid private key for signer ${index + 1}`);
-        throw new Error('Invalid private key');
+  /**
+   * Sends a transaction and waits until the node has processed it.
+   * @param transaction The transaction to send.
+   * @param options Timeout, poll interval and abort signal for the confirmation.
+   * @returns A promise that resolves with the processed transaction, including its `bitcoin_txids`.
+   */
+  async sendAndConfirmTransaction(transaction: RuntimeTransaction, options: ConfirmOptions = {}): Promise<ProcessedTransaction> {
+    const txid = await this.sendTransaction(transaction, { signal: options.signal });
+    return this.confirmTransaction(txid, options);
+  }
+
+  /**
+   * Polls the node until a transaction has been processed.
+   * "Not found" errors are treated as "not indexed yet" and polled again; any other error is rethrown.
+   * A transaction the node reports as failed rejects with `ArchTransactionFailedError`.
+   * @param txid The transaction ID returned by `sendTransaction`.
+   * @param options Timeout, poll interval and abort signal for the confirmation.
+   * @returns A promise that resolves with the processed transaction, including its `bitcoin_txids`.
+   */
+  async confirmTransaction(txid: string, options: ConfirmOptions = {}): Promise<ProcessedTransaction> {
+    const { timeout = 60_000, pollInterval = 1_000, signal } = options;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      if (signal?.aborted) {
+        throw abortReason(signal);
       }
-      
-      const signature = await secp256k1.schnorr.sign(messageHash, signer);
-      const signatureHex = bytesToHex(signature);
 
-      return signatureHex;
-    }));
+      try {
+        const processed = await this.getProcessedTransaction(txid, { signal });
+        if (processed.status === Status.Processed) {
+          return processed;
+        }
+        if (processed.status === Status.Failed) {
+          throw new ArchTransactionFailedError(
+            `Transaction ${txid} failed: ${processed.failure ?? 'unknown reason'}`, 'get_processed_transaction', txid, processed
+          );
+        }
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new ArchTimeoutError(
+          `Transaction ${txid} was not processed within ${timeout}ms`, 'get_processed_transaction', txid, timeout
+        );
+      }
+      await sleep(Math.min(pollInterval, remaining), signal);
+    }
+  }
+
+  /**
+   * Waits until every transaction in a batch has been processed, e.g. the result of `sendTransactions`.
+   * @param txids The transaction IDs to confirm.
+   * @param options Timeout, poll interval and abort signal, shared by the whole batch.
+   * @returns A promise that resolves with the processed transactions, in the order of `txids`.
+   *   It rejects with the first failure, and stops polling for the rest of the batch.
+   */
+  async confirmTransactions(txids: string[], options: ConfirmOptions = {}): Promise<ProcessedTransaction[]> {
+    const { signal } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-    return signatures;
+    try {
+      return await Promise.all(txids.map(txid => this.confirmTransaction(txid, { ...options, signal: controller.signal })));
+    } catch (error) {
+      controller.abort();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Signs a transaction message with the provided signers.
+   * @param message The transaction message to sign.
+   * @param signers The signers to sign with. Every account in `message.signers` must have a
+   *                matching signer; extra signers are ignored.
+   * @returns A promise that resolves with the hex signatures, in the order of `message.signers`.
+   */
+  async signMessage(message: Message, signers: Signer[]): Promise<string[]> {
+    return signMessage(message, signers);
   }
 
   // Serialization Methods
@@ -362,36 +736,13 @@ export class ArchRpcClient {
     return Array.from(pubkey.bytes);
   }
 
+  /**
+   * Encodes a message into the byte layout the Arch node hashes and signs.
+   * @param message The message to encode.
+   * @returns An array of numbers representing the encoded message.
+   */
   public encodeMessage(message: Message): number[] {
-    const parts: number[] = [];
-
-    parts.push(message.signers.length);
-  
-    message.signers.forEach(signer => {
-      parts.push(...Array.from(signer.bytes));
-    });
-  
-    parts.push(message.instructions.length);
-  
-    message.instructions.forEach(instruction => {
-      parts.push(...Array.from(instruction.program_id.bytes));
-      parts.push(instruction.accounts.length);
-      
-      instruction.accounts.forEach(account => {
-        parts.push(...Array.from(account.pubkey.bytes));
-        parts.push(account.is_signer ? 1 : 0);
-        parts.push(account.is_writable ? 1 : 0);
-      });
-  
-      const dataLengthBuffer = new ArrayBuffer(8);
-      const dataLengthView = new DataView(dataLengthBuffer);
-      dataLengthView.setBigUint64(0, BigInt(instruction.data.length), true);
-      parts.push(...new Uint8Array(dataLengthBuffer));
-  
-      parts.push(...instruction.data);
-    });
-  
-    return parts;
+    return encodeMessage(message);
   }
 
   private serializeU32(value: number): number[] {
@@ -452,109 +803,267 @@ export class ArchRpcClient {
     return offset;
   }
 
-  // Utility Methods
-
-  /**
-   * Creates an instruction.
-   * @param program_id The program ID for the instruction.
-   * @param accounts The accounts involved in the instruction.
-   * @param data The data for the instruction.
-   * @returns The created instruction.
-   */
-  private createInstruction(program_id: Pubkey, accounts: AccountMeta[], data: number[]): Instruction {
-    return { program_id, accounts, data };
-  }
-
-  /**
-   * Creates a message.
-   * @param signers The signers of the message.
-   * @param instructions The instructions in the message.
-   * @returns The created message.
-   */
-  private createMessage(signers: Pubkey[], instructions: Instruction[]): Message {
-    return { signers, instructions };
-  }
-
   // Network Query Methods
 
   /**
    * Checks if the node is ready.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with a boolean indicating if the node is ready.
    */
-  async isNodeReady(): Promise<boolean> {
-    return this.call<boolean>('is_node_ready', []);
+  async isNodeReady(options?: CallOptions): Promise<boolean> {
+    return this.call<boolean>('is_node_ready', [], options);
   }
 
   /**
    * Gets the address for an account.
    * @param accountPubkey The public key of the account.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the account address.
    */
-  async getAccountAddress(accountPubkey: Pubkey): Promise<string> {
-    return this.call<string>('get_account_address', accountPubkey.serialize());
+  async getAccountAddress(accountPubkey: Pubkey, options?: CallOptions): Promise<string> {
+    return this.call<string>('get_account_address', accountPubkey.serialize(), options);
   }
 
   /**
    * Reads account information.
    * @param pubkey The public key of the account.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the account information.
    */
-  async readAccountInfo(pubkey: Pubkey): Promise<AccountInfoResult> {
-    return this.call<AccountInfoResult>('read_account_info', pubkey.serialize());
+  async readAccountInfo(pubkey: Pubkey, options?: CallOptions): Promise<AccountInfoResult> {
+    return this.call<AccountInfoResult>('read_account_info', pubkey.serialize(), options);
   }
 
   /**
    * Gets the current block count.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the current block count.
    */
-  async getBlockCount(): Promise<number> {
-    return this.call<number>('get_block_count', []);
+  async getBlockCount(options?: CallOptions): Promise<number> {
+    return this.call<number>('get_block_count', [], options);
   }
 
   /**
    * Starts the Distributed Key Generation process.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves when the DKG process has started.
    */
-  async startDkg(): Promise<void> {
-    return this.call<void>('start_dkg', []);
+  async startDkg(options?: CallOptions): Promise<void> {
+    return this.call<void>('start_dkg', [], options);
   }
 
   /**
    * Gets the block hash for a given height.
    * @param height The block height.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the block hash.
    */
-  async getBlockHash(height: number): Promise<string> {
-    return this.call<string>('get_block_hash', height);
+  async getBlockHash(height: number, options?: CallOptions): Promise<string> {
+    return this.call<string>('get_block_hash', height, options);
   }
 
   /**
    * Gets block information for a given hash.
    * @param hash The block hash.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the block information.
    */
-  async getBlock(hash: string): Promise<Block> {
-    return this.call<Block>('get_block', hash);
+  async getBlock(hash: string, options?: CallOptions): Promise<Block> {
+    return this.call<Block>('get_block', hash, options);
   }
 
   /**
    * Gets information about a processed transaction.
    * @param txId The transaction ID.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with the processed transaction information.
    */
-  async getProcessedTransaction(txId: string): Promise<ProcessedTransaction> {
-    return this.call<ProcessedTransaction>('get_processed_transaction', txId);
+  async getProcessedTransaction(txId: string, options?: CallOptions): Promise<ProcessedTransaction> {
+    return this.call<ProcessedTransaction>('get_processed_transaction', txId, options);
   }
 
   /**
    * Gets the program accounts for a given program ID.
    * @param programId The program ID to fetch accounts for.
    * @param filters Optional filters to apply when fetching accounts.
+   * @param options The abort signal for this call.
    * @returns A promise that resolves with an array of program accounts.
    */
-  async getProgramAccounts(programId: Pubkey, filters?: AccountFilter[]): Promise<ProgramAccount[]> {
-    return this.call<ProgramAccount[]>('get_program_accounts', [programId.serialize(), filters]);
+  async getProgramAccounts(programId: Pubkey, filters?: AccountFilter[], options?: CallOptions): Promise<ProgramAccount[]> {
+    return this.call<ProgramAccount[]>('get_program_accounts', [programId.serialize(), filters], options);
+  }
+
+  /**
+   * Streams blocks in height order, each with its transactions hydrated, for building
+   * indexers. Throws `ArchReorgError` when a block does not build on the one before it.
+   * @param options The height range, follow mode, checkpoint to resume from and abort signal.
+   * @returns An async iterator over the blocks.
+   *
+   * @example
+   * for await (const { height, hash, transactions } of client.blocks({ checkpoint, follow: true })) {
+   *   await index(transactions);
+   *   checkpoint = { height, hash };
+   * }
+   */
+  async *blocks(options: BlockStreamOptions = {}): AsyncGenerator<BlockWithTransactions, void, undefined> {
+    const { to, follow = false, checkpoint, pollInterval = 1_000, signal } = options;
+    if (checkpoint && options.from !== undefined && options.from !== checkpoint.height + 1) {
+      throw new Error(`from (${options.from}) must be the height after the checkpoint (${checkpoint.height})`);
+    }
+
+    let height = options.from ?? (checkpoint ? checkpoint.height + 1 : 0);
+    let previousHash = checkpoint?.hash;
+    let tip = -1;
+
+    while (to === undefined || height <= to) {
+      if (signal?.aborted) {
+        throw abortReason(signal);
+      }
+      if (height > tip) {
+        tip = (await this.getBlockCount({ signal })) - 1;
+        if (height > tip) {
+          if (!follow) {
+            return;
+          }
+          await sleep(pollInterval, signal);
+          continue;
+        }
+      }
+
+      const hash = await this.getBlockHash(height, { signal });
+      const block = await this.getBlock(hash, { signal });
+      if (previousHash !== undefined && block.previous_block_hash !== previousHash) {
+        throw new ArchReorgError(
+          `Block ${height} builds on ${block.previous_block_hash}, expected ${previousHash}`,
+          'get_block', hash, height, previousHash, block.previous_block_hash
+        );
+      }
+
+      const transactions = await Promise.all(
+        block.transactions.map(txid => this.getProcessedTransaction(txid, { signal }))
+      );
+      yield { height, hash, block, transactions };
+      previousHash = hash;
+      height++;
+    }
+  }
+
+  // Subscription Methods
+
+  /**
+   * Calls back whenever an account's state changes, including when it is first created.
+   * @param pubkey The account to watch.
+   * @param callback Called with the new account state.
+   * @returns The handle that stops the subscription.
+   */
+  onAccountChange(pubkey: Pubkey, callback: (account: AccountInfoResult) => void): Subscription {
+    let last: string | undefined;
+    return this.subscriptions().add({
+      topic: 'account_update',
+      filter: { account: pubkey.toString() },
+      check: async () => {
+        const account = await this.readAccountInfo(pubkey).catch(error => {
+          if (isNotFoundError(error)) {
+            return null;
+          }
+          throw error;
+        });
+        const snapshot = JSON.stringify(account);
+        if (last !== undefined && snapshot !== last && account) {
+          callback(account);
+        }
+        last = snapshot;
+      },
+    });
+  }
+
+  /**
+   * Calls back whenever an account owned by a program is created or changes.
+   * @param programId The program that owns the accounts.
+   * @param filters Filters the accounts must match, as in `getProgramAccounts`.
+   * @param callback Called once per created or changed account.
+   * @returns The handle that stops the subscription.
+   */
+  onProgramAccountChange(
+    programId: Pubkey,
+    filters: AccountFilter[] | undefined,
+    callback: (account: ProgramAccount) => void
+  ): Subscription {
+    let known: Map<string, string> | undefined;
+    return this.subscriptions().add({
+      topic: 'account_update',
+      filter: { owner: programId.toString() },
+      check: async () => {
+        const accounts = await this.getProgramAccounts(programId, filters);
+        const snapshots = new Map(accounts.map(({ pubkey, account }) => [JSON.stringify(pubkey), JSON.stringify(account)]));
+        if (known) {
+          accounts.forEach(account => {
+            const key = JSON.stringify(account.pubkey);
+            if (known!.get(key) !== snapshots.get(key)) {
+              callback(account);
+            }
+          });
+        }
+        known = snapshots;
+      },
+    });
+  }
+
+  /**
+   * Calls back whenever a transaction's status changes, starting with the first status
+   * the node reports. Stops by itself once the transaction is processed or has failed.
+   * @param txid The transaction to watch.
+   * @param callback Called with the processed transaction on every status change.
+   * @returns The handle that stops the subscription early.
+   */
+  onTransactionStatus(txid: string, callback: (transaction: ProcessedTransaction) => void): Subscription {
+    let lastStatus: Status | undefined;
+    const subscription: Subscription = this.subscriptions().add({
+      topic: 'transaction',
+      filter: { hash: txid },
+      check: async () => {
+        const transaction = await this.getProcessedTransaction(txid).catch(error => {
+          if (isNotFoundError(error)) {
+            return undefined;
+          }
+          throw error;
+        });
+        if (!transaction || transaction.status === lastStatus) {
+          return;
+        }
+        lastStatus = transaction.status;
+        callback(transaction);
+        if (transaction.status !== Status.Processing) {
+          subscription.unsubscribe();
+        }
+      },
+    });
+    return subscription;
+  }
+
+  private subscriptions(): SubscriptionHub {
+    this.subscriptionHub ??= new SubscriptionHub(this.subscriptionOptions, this.logger);
+    return this.subscriptionHub;
   }
 }
 
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './errors';
+export * from './retry';
+export * from './middleware';
+export * from './nodePool';
+export * from './signer';
+export * from './keypair';
+export * from './address';
+export * from './bitcoin';
+export * from './subscriptions';
+export * from './decoders';
+export * from './deploy';
+export * from './preflight';
+export * from './transport';
+export * from './jsonRpc';
+export * from './message';
+export * from './transactionBuilder';
+export * from './systemProgram';
+export * as borsh from './borsh';
+export * from './program';
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { ArchDecodeError, ArchJsonRpcError, ArchRpcError } from './errors';
+import { JsonRpcRequest } from './middleware';
+
+/**
+ * Builds a JSON-RPC 2.0 request object.
+ * @param id The request ID, unique among in-flight requests.
+ * @param method The RPC method name.
+ * @param params The parameters for the RPC method.
+ * @returns The request object.
+ */
+export function createJsonRpcRequest(id: string, method: string, params: any): JsonRpcRequest {
+  return { jsonrpc: '2.0', id, method, params };
+}
+
+/**
+ * Splits a batch response body into one response per request, matched by id. A node that
+ * rejects the whole batch answers with a single error object, which every request gets.
+ * @param requests The requests of the batch.
+ * @param body The response body.
+ * @returns The response for each request, in request order; undefined where the node sent none.
+ */
+export function matchBatchResponses(requests: JsonRpcRequest[], body: unknown): unknown[] {
+  if (!Array.isArray(body)) {
+    return requests.map(() => body);
+  }
+  const byId = new Map<unknown, unknown>();
+  body.forEach(item => byId.set(item?.id, item));
+  return requests.map(request => byId.get(request.id));
+}
+
+/**
+ * Extracts the result from a JSON-RPC response body.
+ * @param body The response body for one request.
+ * @param method The RPC method of the request, for errors.
+ * @param params The parameters of the request, for errors.
+ * @returns The result.
+ * @throws {ArchJsonRpcError} When the node returned an error object.
+ * @throws {ArchDecodeError} When the body is not a JSON-RPC response.
+ */
+export function readJsonRpcResult<T>(body: unknown, method: string, params: unknown): T {
+  if (body === null || typeof body !== 'object') {
+    throw new ArchDecodeError(`Invalid JSON-RPC response for ${method}`, method, params, body);
+  }
+  const response = body as { result?: T; error?: unknown };
+  if (response.error) {
+    throw toJsonRpcError(response.error, method, params);
+  }
+  if (!('result' in response)) {
+    throw new ArchDecodeError(`JSON-RPC response for ${method} has neither result nor error`, method, params, body);
+  }
+  return response.result as T;
+}
+
+/**
+ * Converts a JSON-RPC error object into an `ArchJsonRpcError`.
+ * @param error The `error` member of a response.
+ * @param method The RPC method of the request.
+ * @param params The parameters of the request.
+ * @returns The error, or an `ArchDecodeError` when the object is malformed.
+ */
+export function toJsonRpcError(error: any, method: string, params: unknown): ArchRpcError {
+  if (typeof error !== 'object' || typeof error.code !== 'number') {
+    return new ArchDecodeError(`Invalid JSON-RPC error object for ${method}`, method, params, error);
+  }
+  return new ArchJsonRpcError(String(error.message), method, params, error.code, error.data);
+}
@@ -0,0 +1,197 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { HDKey } from '@scure/bip32';
+import * as bip39 from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { BitcoinNetwork, getTaprootAddress } from './address';
+import { KeypairSigner } from './signer';
+
+/**
+ * The BIP86 path of the first receiving key of the first account.
+ */
+export const DEFAULT_DERIVATION_PATH = "m/86'/0'/0'/0/0";
+
+export interface MnemonicOptions {
+  path?: string; // BIP32 derivation path, defaults to DEFAULT_DERIVATION_PATH
+  passphrase?: string; // optional BIP39 passphrase
+}
+
+/**
+ * The JSON keyfile written by `saveKeypair`. Secrets are hex without a `0x` prefix.
+ */
+export interface Keyfile {
+  secret_key: string;
+  public_key: string;
+}
+
+/**
+ * Keypair is a secp256k1 key pair for an Arch account. It is a `Signer`, so it can be
+ * passed anywhere the client takes one.
+ */
+export class Keypair extends KeypairSigner {
+  /**
+   * Generates a random keypair.
+   * @returns The new keypair.
+   */
+  static generate(): Keypair {
+    return new Keypair(secp256k1.utils.randomPrivateKey());
+  }
+
+  /**
+   * Creates a keypair from a secret key.
+   * @param secretKey The 32-byte secp256k1 private key.
+   * @returns The keypair.
+   */
+  static fromSecretKey(secretKey: Uint8Array): Keypair {
+    return new Keypair(Uint8Array.from(secretKey));
+  }
+
+  /**
+   * Creates a keypair from a hex secret key, with or without a `0x` prefix.
+   * @param hex The hex-encoded private key.
+   * @returns The keypair.
+   */
+  static fromHex(hex: string): Keypair {
+    const bytes = hexToBytes(hex.replace(/^0x/, ''));
+    if (bytes.length !== 32) {
+      throw new Error('Secret key must be 32 bytes');
+    }
+    return new Keypair(bytes);
+  }
+
+  /**
+   * Derives a keypair from a BIP32 seed.
+   * @param seed The 16- to 64-byte seed, e.g. from `bip39.mnemonicToSeed`.
+   * @param path The BIP32 derivation path.
+   * @returns The keypair at `path`.
+   */
+  static fromSeed(seed: Uint8Array, path: string = DEFAULT_DERIVATION_PATH): Keypair {
+    const { privateKey } = HDKey.fromMasterSeed(seed).derive(path);
+    if (!privateKey) {
+      throw new Error(`No private key at ${path}`);
+    }
+    return new Keypair(privateKey);
+  }
+
+  /**
+   * Derives a keypair from a BIP39 mnemonic in the English wordlist.
+   * @param mnemonic The mnemonic phrase.
+   * @param options The derivation path and passphrase.
+   * @returns The keypair at the derivation path.
+   */
+  static fromMnemonic(mnemonic: string, options: MnemonicOptions = {}): Keypair {
+    const normalized = mnemonic.trim().split(/\s+/).join(' ');
+    if (!bip39.validateMnemonic(normalized, wordlist)) {
+      throw new Error('Invalid mnemonic');
+    }
+    return Keypair.fromSeed(bip39.mnemonicToSeedSync(normalized, options.passphrase), options.path);
+  }
+
+  /**
+   * Generates a BIP39 mnemonic in the English wordlist.
+   * @param strength The entropy in bits: 128 for 12 words, 256 for 24 words.
+   * @returns The mnemonic phrase.
+   */
+  static generateMnemonic(strength: 128 | 160 | 192 | 224 | 256 = 128): string {
+    return bip39.generateMnemonic(wordlist, strength);
+  }
+
+  /**
+   * Parses a keyfile. Accepts the JSON written by `saveKeypair`, a JSON array of the
+   * secret key bytes (optionally followed by the public key), or a bare hex secret key
+   * as written by the Arch CLI and example programs.
+   * @param contents The keyfile contents.
+   * @returns The keypair.
+   */
+  static fromKeyfile(contents: string): Keypair {
+    const text = contents.trim();
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(text)) {
+      return Keypair.fromHex(text);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Keyfile is neither JSON nor a hex secret key');
+    }
+    if (typeof parsed === 'string') {
+      return Keypair.fromHex(parsed);
+    }
+    if (Array.isArray(parsed) && (parsed.length === 32 || parsed.length === 64)) {
+      return Keypair.fromSecretKey(Uint8Array.from(parsed.slice(0, 32)));
+    }
+    if (parsed && typeof parsed === 'object' && typeof (parsed as Keyfile).secret_key === 'string') {
+      const keypair = Keypair.fromHex((parsed as Keyfile).secret_key);
+      const publicKey = (parsed as Keyfile).public_key;
+      if (publicKey !== undefined && publicKey !== keypair.pubkey.toString()) {
+        throw new Error('Keyfile public_key does not match its secret_key');
+      }
+      return keypair;
+    }
+    throw new Error('Unrecognized keyfile format');
+  }
+
+  /**
+   * A copy of the 32-byte secret key.
+   */
+  get secretKey(): Uint8Array {
+    return Uint8Array.from(this.privateKey);
+  }
+
+  /**
+   * Encodes the secret key as hex.
+   * @returns The hex-encoded private key.
+   */
+  toHex(): string {
+    return bytesToHex(this.privateKey);
+  }
+
+  /**
+   * Builds the JSON keyfile for this keypair.
+   * @returns The keyfile object.
+   */
+  toKeyfile(): Keyfile {
+    return { secret_key: this.toHex(), public_key: this.pubkey.toString() };
+  }
+
+  /**
+   * Derives the taproot address of this keypair's account offline.
+   * @param network The Bitcoin network the address is for.
+   * @returns The bech32m-encoded P2TR address.
+   */
+  address(network: BitcoinNetwork = 'mainnet'): string {
+    return getTaprootAddress(this.pubkey, network);
+  }
+}
+
+/**
+ * Reads a keypair from a keyfile. Node.js only.
+ * @param path The path of the keyfile.
+ * @returns A promise that resolves with the keypair.
+ */
+export async function loadKeypair(path: string): Promise<Keypair> {
+  const { readFile } = await import('fs/promises');
+  return Keypair.fromKeyfile(await readFile(path, 'utf8'));
+}
+
+export interface SaveKeypairOptions {
+  overwrite?: boolean; // replace an existing file, defaults to false
+}
+
+/**
+ * Writes a keypair to a JSON keyfile readable only by the current user. Node.js only.
+ * @param path The path of the keyfile.
+ * @param keypair The keypair to save.
+ * @param options Whether an existing file may be replaced.
+ * @returns A promise that resolves once the file is written. Rejects with an `EEXIST`
+ *   error when the file exists and `overwrite` is not set.
+ */
+export async function saveKeypair(path: string, keypair: Keypair, options: SaveKeypairOptions = {}): Promise<void> {
+  const { chmod, writeFile } = await import('fs/promises');
+  const contents = JSON.stringify(keypair.toKeyfile(), null, 2) + '\n';
+  await writeFile(path, contents, { mode: 0o600, flag: options.overwrite ? 'w' : 'wx' });
+  if (options.overwrite) {
+    await chmod(path, 0o600); // mode only applies when the file is created
+  }
+}
@@ -0,0 +1,320 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Buffer } from 'buffer';
+import { AccountMeta, Instruction, Message, Pubkey, RuntimeTransaction } from './types';
+import { Signer } from './signer';
+
+/**
+ * The largest signer count the u8 prefix in an encoded message can hold.
+ */
+export const MAX_SIGNERS = 255;
+
+/**
+ * The largest instruction count the u8 prefix in an encoded message can hold.
+ */
+export const MAX_INSTRUCTIONS = 255;
+
+/**
+ * The largest account count the u8 prefix in an encoded instruction can hold.
+ */
+export const MAX_ACCOUNTS_PER_INSTRUCTION = 255;
+
+/**
+ * The largest encoded transaction the node accepts, in bytes.
+ */
+export const MAX_TRANSACTION_SIZE = 10_240;
+
+/**
+ * Encodes a message into the byte layout the Arch node hashes and signs.
+ * @param message The message to encode.
+ * @returns An array of numbers representing the encoded message.
+ * @throws {RangeError} When a signer, instruction or account count does not fit its u8 prefix.
+ */
+export function encodeMessage(message: Message): number[] {
+  checkCount('Message', message.signers.length, 'signers', MAX_SIGNERS);
+  checkCount('Message', message.instructions.length, 'instructions', MAX_INSTRUCTIONS);
+  message.instructions.forEach((instruction, index) => {
+    checkCount(`Instruction ${index}`, instruction.accounts.length, 'accounts', MAX_ACCOUNTS_PER_INSTRUCTION);
+  });
+
+  const parts: number[] = [];
+
+  parts.push(message.signers.length);
+
+  message.signers.forEach(signer => {
+    parts.push(...Array.from(signer.bytes));
+  });
+
+  parts.push(message.instructions.length);
+
+  message.instructions.forEach(instruction => {
+    parts.push(...Array.from(instruction.program_id.bytes));
+    parts.push(instruction.accounts.length);
+
+    instruction.accounts.forEach(account => {
+      parts.push(...Array.from(account.pubkey.bytes));
+      parts.push(account.is_signer ? 1 : 0);
+      parts.push(account.is_writable ? 1 : 0);
+    });
+
+    const dataLengthBuffer = new ArrayBuffer(8);
+    const dataLengthView = new DataView(dataLengthBuffer);
+    dataLengthView.setBigUint64(0, BigInt(instruction.data.length), true);
+    parts.push(...new Uint8Array(dataLengthBuffer));
+
+    parts.push(...instruction.data);
+  });
+
+  return parts;
+}
+
+// Counts are written as a u8; anything larger would wrap and encode a different transaction.
+function checkCount(owner: string, count: number, what: string, max: number): void {
+  if (count > max) {
+    throw new RangeError(`${owner} has ${count} ${what}, maximum is ${max}`);
+  }
+}
+
+/**
+ * Decodes the byte layout produced by `encodeMessage`.
+ * @param bytes The encoded message.
+ * @returns The decoded message.
+ */
+export function decodeMessage(bytes: Uint8Array | number[]): Message {
+  const reader = new ByteReader(Uint8Array.from(bytes));
+  const message = readMessage(reader);
+  reader.finish();
+  return message;
+}
+
+/**
+ * Encodes a signed transaction in the node's binary format: the version as a
+ * little-endian u32, the signature count as a u8, each 64-byte signature, then
+ * the encoded message.
+ * @param transaction The transaction to encode.
+ * @returns The encoded transaction.
+ * @throws {RangeError} When a signature, signer, instruction or account count does not fit its u8 prefix.
+ */
+export function encodeTransaction(transaction: RuntimeTransaction): Uint8Array {
+  checkCount('Transaction', transaction.signatures.length, 'signatures', MAX_SIGNERS);
+
+  const parts: number[] = [];
+  const version = new Uint8Array(4);
+  new DataView(version.buffer).setUint32(0, transaction.version, true);
+  parts.push(...version);
+
+  parts.push(transaction.signatures.length);
+  transaction.signatures.forEach((signature, index) => {
+    const signatureBytes = hexToBytes(signature);
+    if (signatureBytes.length !== 64) {
+      throw new Error(`Signature ${index} must be 64 bytes`);
+    }
+    parts.push(...signatureBytes);
+  });
+
+  parts.push(...encodeMessage(transaction.message));
+  return new Uint8Array(parts);
+}
+
+/**
+ * Decodes the binary format produced by `encodeTransaction`.
+ * @param bytes The encoded transaction.
+ * @returns The decoded transaction, with hex signatures.
+ */
+export function decodeTransaction(bytes: Uint8Array | number[]): RuntimeTransaction {
+  const reader = new ByteReader(Uint8Array.from(bytes));
+  const version = reader.u32();
+  const signatureCount = reader.u8();
+  const signatures: string[] = [];
+  for (let i = 0; i < signatureCount; i++) {
+    signatures.push(bytesToHex(reader.bytes(64)));
+  }
+  const message = readMessage(reader);
+  reader.finish();
+  return { version, signatures, message };
+}
+
+/**
+ * Encodes a transaction as a hex string.
+ * @param transaction The transaction to encode.
+ * @returns The hex encoding of `encodeTransaction`.
+ */
+export function transactionToHex(transaction: RuntimeTransaction): string {
+  return bytesToHex(encodeTransaction(transaction));
+}
+
+/**
+ * Decodes a transaction from a hex string.
+ * @param hex The hex encoding of `encodeTransaction`.
+ * @returns The decoded transaction.
+ */
+export function transactionFromHex(hex: string): RuntimeTransaction {
+  return decodeTransaction(hexToBytes(hex));
+}
+
+/**
+ * Encodes a transaction as a base64 string.
+ * @param transaction The transaction to encode.
+ * @returns The base64 encoding of `encodeTransaction`.
+ */
+export function transactionToBase64(transaction: RuntimeTransaction): string {
+  return Buffer.from(encodeTransaction(transaction)).toString('base64');
+}
+
+/**
+ * Decodes a transaction from a base64 string.
+ * @param base64 The base64 encoding of `encodeTransaction`.
+ * @returns The decoded transaction.
+ */
+export function transactionFromBase64(base64: string): RuntimeTransaction {
+  return decodeTransaction(Buffer.from(base64, 'base64'));
+}
+
+/**
+ * Computes the hash that signers sign. The node hashes the hex string of the
+ * first sha256 rather than its bytes, so we do the same.
+ * @param message The message to hash.
+ * @returns The 32-byte message hash.
+ */
+export function hashMessage(message: Message): Uint8Array {
+  const firstHash = sha256(new Uint8Array(encodeMessage(message)));
+  return sha256(bytesToHex(firstHash));
+}
+
+/**
+ * Signs a message with the provided signers.
+ * @param message The message to sign.
+ * @param signers The signers to sign with. Every account in `message.signers` must have a
+ *                matching signer; extra signers are ignored.
+ * @returns A promise that resolves with the hex signatures, in the order of `message.signers`.
+ */
+export async function signMessage(message: Message, signers: Signer[]): Promise<string[]> {
+  const messageHash = hashMessage(message);
+
+  return Promise.all(message.signers.map(async (pubkey) => {
+    const signer = signers.find(s => s.pubkey.equals(pubkey));
+    if (!signer) {
+      throw new Error(`Missing signer for ${pubkey.toString()}`);
+    }
+
+    const signature = await signer.sign(messageHash);
+    return bytesToHex(signature);
+  }));
+}
+
+export interface TransactionVerification {
+  valid: boolean; // true when every signer has a valid signature and there are no extra signatures
+  missing: Pubkey[]; // signers without a signature
+  invalid: Pubkey[]; // signers whose signature does not verify
+  unexpectedSignatures: number; // signatures beyond the number of signers
+}
+
+/**
+ * Verifies the signatures of a transaction offline. Recomputes the message hash the
+ * way the node does and checks each signature against `message.signers` in order.
+ * @param transaction The transaction to verify.
+ * @returns A promise that resolves with a report of missing and invalid signatures.
+ */
+export async function verifyTransaction(transaction: RuntimeTransaction): Promise<TransactionVerification> {
+  const { signers } = transaction.message;
+  const messageHash = hashMessage(transaction.message);
+
+  const missing = signers.slice(transaction.signatures.length);
+  const results = await Promise.all(signers.slice(0, transaction.signatures.length).map(async (signer, index) => {
+    try {
+      return await secp256k1.schnorr.verify(transaction.signatures[index], messageHash, signer.bytes);
+    } catch {
+      return false;
+    }
+  }));
+  const invalid = signers.filter((_signer, index) => results[index] === false);
+  const unexpectedSignatures = Math.max(0, transaction.signatures.length - signers.length);
+
+  return {
+    valid: missing.length === 0 && invalid.length === 0 && unexpectedSignatures === 0,
+    missing,
+    invalid,
+    unexpectedSignatures,
+  };
+}
+
+function readMessage(reader: ByteReader): Message {
+  const signers: Pubkey[] = [];
+  const signerCount = reader.u8();
+  for (let i = 0; i < signerCount; i++) {
+    signers.push(reader.pubkey());
+  }
+
+  const instructions: Instruction[] = [];
+  const instructionCount = reader.u8();
+  for (let i = 0; i < instructionCount; i++) {
+    const program_id = reader.pubkey();
+    const accounts: AccountMeta[] = [];
+    const accountCount = reader.u8();
+    for (let j = 0; j < accountCount; j++) {
+      accounts.push({ pubkey: reader.pubkey(), is_signer: reader.bool(), is_writable: reader.bool() });
+    }
+    const dataLength = reader.u64();
+    instructions.push({ program_id, accounts, data: Array.from(reader.bytes(dataLength)) });
+  }
+
+  return { signers, instructions };
+}
+
+/**
+ * Reads little-endian values from a byte array, failing on truncated input.
+ */
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error(`Unexpected end of data: need ${length} bytes at offset ${this.offset}`);
+    }
+    const slice = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  u8(): number {
+    return this.bytes(1)[0];
+  }
+
+  bool(): boolean {
+    const value = this.u8();
+    if (value > 1) {
+      throw new Error(`Invalid boolean ${value} at offset ${this.offset - 1}`);
+    }
+    return value === 1;
+  }
+
+  u32(): number {
+    this.bytes(4);
+    return this.view.getUint32(this.offset - 4, true);
+  }
+
+  u64(): number {
+    this.bytes(8);
+    const value = this.view.getBigUint64(this.offset - 8, true);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(`Length ${value} at offset ${this.offset - 8} is too large`);
+    }
+    return Number(value);
+  }
+
+  pubkey(): Pubkey {
+    return new Pubkey(this.bytes(32));
+  }
+
+  finish(): void {
+    if (this.offset !== this.data.length) {
+      throw new Error(`Unexpected ${this.data.length - this.offset} trailing bytes`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { ArchRpcError } from './errors';
+
+/**
+ * A minimal structured logger. Compatible with `console` and most logging libraries.
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * The default logger. Discards everything.
+ */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: string;
+  method: string;
+  params: any;
+}
+
+/**
+ * The state of a single RPC attempt, shared by every middleware in the chain.
+ * `payload` and `headers` may be modified in `beforeSend` and are sent as-is.
+ */
+export interface RpcRequestContext {
+  method: string;
+  params: unknown;
+  payload: JsonRpcRequest;
+  headers: Record<string, string>;
+  attempt: number; // zero-based, increases on every retry
+  metadata: Record<string, unknown>; // free-form storage, e.g. for timers or tracing spans
+}
+
+/**
+ * Hooks into every RPC attempt made by ArchRpcClient. Hooks run in registration
+ * order and may be async; an error thrown by a hook fails the call.
+ */
+export interface Middleware {
+  /**
+   * Runs before the request is sent. Use it to add headers, rewrite the payload or start a span.
+   */
+  beforeSend?(context: RpcRequestContext): void | Promise<void>;
+
+  /**
+   * Runs after a response body has been received, before it is checked for errors.
+   */
+  afterReceive?(context: RpcRequestContext, response: unknown): void | Promise<void>;
+
+  /**
+   * Runs when the attempt fails, before the retry policy decides whether to try again.
+   */
+  onError?(context: RpcRequestContext, error: ArchRpcError): void | Promise<void>;
+}
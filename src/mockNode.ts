@@ -0,0 +1,620 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { AccountFilter, AccountInfoResult, Block, Instruction, Pubkey, RuntimeTransaction, Status } from './types';
+import { BitcoinNetwork, getTaprootAddress } from './address';
+import { decodePubkey, decodeRuntimeTransaction, decodeString, decodeNumber, ResponseSchemaError } from './decoders';
+import { encodeTransaction, verifyTransaction } from './message';
+import { SystemInstructionType, SystemProgram } from './systemProgram';
+import { sameBytes } from './utils';
+import { InMemoryTransport } from './transport';
+
+/**
+ * An account as a program handler sees it. Handlers may change `data`, `owner` and
+ * `is_executable`; the node rejects changes to accounts the instruction did not mark
+ * writable, and data changes to accounts the program does not own.
+ */
+export interface MockAccount {
+  pubkey: Pubkey;
+  is_signer: boolean;
+  is_writable: boolean;
+  owner: Pubkey;
+  data: number[];
+  utxo: string;
+  is_executable: boolean;
+}
+
+export interface ProgramContext {
+  programId: Pubkey;
+  accounts: MockAccount[]; // in the order of `instruction.accounts`; accounts that do not exist read as empty
+  data: number[];
+  txid: string;
+  log(message: string): void;
+}
+
+/**
+ * Runs one instruction addressed to a custom program. Throw to fail the transaction; every
+ * change the transaction made is then rolled back.
+ */
+export type ProgramHandler = (context: ProgramContext) => void | Promise<void>;
+
+export interface MockArchNodeOptions {
+  manualBlocks?: boolean; // keep transactions Processing until `produceBlock()`, off by default
+  verifySignatures?: boolean; // reject transactions with missing or invalid signatures, on by default
+  network?: BitcoinNetwork; // for `get_account_address`, defaults to regtest
+}
+
+/**
+ * A processed transaction as the mock node stores it, with the log lines its programs wrote.
+ */
+export interface MockTransactionRecord {
+  txid: string;
+  transaction: RuntimeTransaction;
+  status: Status;
+  failure?: string;
+  logs: string[];
+}
+
+interface StoredAccount {
+  owner: Pubkey;
+  data: number[];
+  utxo: string;
+  is_executable: boolean;
+}
+
+interface StoredBlock extends Block {
+  hash: string;
+  height: number;
+}
+
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const INVALID_TRANSACTION = -32000;
+const NOT_FOUND = 404;
+
+class RpcFailure extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * MockArchNode is an in-process stand-in for an Arch node, for testing clients end to end
+ * without a network. It keeps accounts in memory, verifies signatures, runs system program
+ * instructions and registered program handlers atomically per transaction, and groups
+ * processed transactions into blocks. `simulate_transaction` runs a transaction without
+ * committing it and reports its logs and changed accounts.
+ *
+ * Point an `ArchRpcClient` at `await node.listen()`, or pass request bodies to `handle`.
+ *
+ * @example
+ * const node = new MockArchNode();
+ * node.registerProgram(counterId, ({ accounts }) => { accounts[0].data[0]++; });
+ * const client = new ArchRpcClient(await node.listen());
+ * // ...
+ * await node.close();
+ */
+export class MockArchNode {
+  private readonly accounts = new Map<string, StoredAccount>();
+  private readonly programs = new Map<string, ProgramHandler>();
+  private readonly transactions = new Map<string, MockTransactionRecord>();
+  private readonly blocks: StoredBlock[] = [];
+  private pending: string[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private server?: import('http').Server;
+
+  /**
+   * Creates a node holding only the genesis block.
+   * @param options Block production, signature checking and the Bitcoin network.
+   */
+  constructor(private readonly options: MockArchNodeOptions = {}) {
+    this.appendBlock([]);
+  }
+
+  /**
+   * Registers the handler that runs instructions addressed to a program. The program's
+   * account is created as an executable system-owned account if it does not exist.
+   * @param programId The program ID.
+   * @param handler The instruction handler.
+   * @returns The node, for chaining.
+   */
+  registerProgram(programId: Pubkey, handler: ProgramHandler): this {
+    this.programs.set(programId.toString(), handler);
+    if (!this.accounts.has(programId.toString())) {
+      this.setAccount(programId, { is_executable: true });
+    }
+    return this;
+  }
+
+  /**
+   * Creates or replaces an account, e.g. to seed state before a test.
+   * @param pubkey The account's public key.
+   * @param account The fields to set; the rest default to an empty system-owned account.
+   */
+  setAccount(pubkey: Pubkey, account: Partial<AccountInfoResult> = {}): void {
+    this.accounts.set(pubkey.toString(), {
+      owner: account.owner ?? SystemProgram.programId,
+      data: [...(account.data ?? [])],
+      utxo: account.utxo ?? '',
+      is_executable: account.is_executable ?? false,
+    });
+  }
+
+  /**
+   * Reads an account from the store.
+   * @param pubkey The account's public key.
+   * @returns A copy of the account, or undefined when it does not exist.
+   */
+  getAccount(pubkey: Pubkey): AccountInfoResult | undefined {
+    const account = this.accounts.get(pubkey.toString());
+    return account && { ...account, data: [...account.data] };
+  }
+
+  /**
+   * Looks up a transaction the node has received.
+   * @param txid The transaction ID.
+   * @returns The stored transaction with its logs, or undefined when the node has not seen it.
+   */
+  getTransaction(txid: string): MockTransactionRecord | undefined {
+    return this.transactions.get(txid);
+  }
+
+  /**
+   * Processes every pending transaction into a new block. Only needed with `manualBlocks`.
+   * @returns A promise that resolves with the new block's hash.
+   */
+  async produceBlock(): Promise<string> {
+    return this.exclusive(async () => {
+      const txids = this.pending;
+      this.pending = [];
+      for (const txid of txids) {
+        await this.execute(this.transactions.get(txid)!);
+      }
+      return this.appendBlock(txids).hash;
+    });
+  }
+
+  /**
+   * Handles a JSON-RPC request body, single or batched, as the HTTP endpoint does.
+   * @param body The parsed request body.
+   * @returns A promise that resolves with the response body.
+   */
+  async handle(body: unknown): Promise<unknown> {
+    if (Array.isArray(body)) {
+      return Promise.all(body.map(request => this.handleOne(request)));
+    }
+    return this.handleOne(body);
+  }
+
+  /**
+   * Creates a transport that calls `handle` directly, so a client can use the node
+   * without opening a port.
+   * @returns The transport, to pass to `new ArchRpcClient(...)`.
+   */
+  transport(): InMemoryTransport {
+    return new InMemoryTransport(body => this.handle(body));
+  }
+
+  /**
+   * Serves the JSON-RPC endpoint over HTTP on localhost.
+   * @param port The port to listen on, defaults to a free one.
+   * @returns A promise that resolves with the endpoint URL.
+   */
+  async listen(port = 0): Promise<string> {
+    const { createServer } = await import('http');
+    const server = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', async () => {
+        let body: unknown;
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch {
+          body = undefined;
+        }
+        const result = body === undefined
+          ? { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }
+          : await this.handle(body);
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(result));
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    const address = server.address() as import('net').AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Stops the HTTP endpoint started by `listen`.
+   * @returns A promise that resolves once the server has closed.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeIdleConnections(); // keep-alive sockets would otherwise hold the server open
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  private async handleOne(request: any): Promise<unknown> {
+    const id = request?.id ?? null;
+    try {
+      if (typeof request?.method !== 'string') {
+        throw new RpcFailure(-32600, 'Invalid request');
+      }
+      return { jsonrpc: '2.0', id, result: await this.dispatch(request.method, request.params) };
+    } catch (error) {
+      if (error instanceof RpcFailure) {
+        return { jsonrpc: '2.0', id, error: { code: error.code, message: error.message } };
+      }
+      if (error instanceof ResponseSchemaError) {
+        return { jsonrpc: '2.0', id, error: { code: INVALID_PARAMS, message: `Invalid params: ${error.message}` } };
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message } };
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<unknown> {
+    switch (method) {
+      case 'is_node_ready':
+        return true;
+      case 'get_account_address':
+        return getTaprootAddress(decodePubkey(params, '$.params'), this.options.network ?? 'regtest');
+      case 'read_account_info': {
+        const pubkey = decodePubkey(params, '$.params');
+        const account = this.accounts.get(pubkey.toString());
+        if (!account) {
+          throw new RpcFailure(NOT_FOUND, `Account ${pubkey.toString()} not found`);
+        }
+        return serializeAccount(account);
+      }
+      case 'get_program_accounts': {
+        const [programId, filters] = Array.isArray(params) ? params : [];
+        return this.programAccounts(decodePubkey(programId, '$.params[0]'), filters ?? []);
+      }
+      case 'send_transaction':
+        return this.receive(params);
+      case 'simulate_transaction':
+        return this.simulate(params);
+      case 'send_transactions': {
+        if (!Array.isArray(params)) {
+          throw new RpcFailure(INVALID_PARAMS, 'Invalid params: expected an array of transactions');
+        }
+        const txids: string[] = [];
+        for (const transaction of params) {
+          txids.push(await this.receive(transaction));
+        }
+        return txids;
+      }
+      case 'get_processed_transaction': {
+        const txid = decodeString(params, '$.params');
+        const record = this.transactions.get(txid);
+        if (!record) {
+          throw new RpcFailure(NOT_FOUND, `Transaction ${txid} not found`);
+        }
+        return serializeProcessed(record);
+      }
+      case 'get_block_count':
+        return this.blocks.length;
+      case 'get_block_hash': {
+        const height = decodeNumber(params, '$.params');
+        const block = this.blocks[height];
+        if (!block) {
+          throw new RpcFailure(NOT_FOUND, `Block ${height} not found`);
+        }
+        return block.hash;
+      }
+      case 'get_block': {
+        const hash = decodeString(params, '$.params');
+        const block = this.blocks.find(b => b.hash === hash);
+        if (!block) {
+          throw new RpcFailure(NOT_FOUND, `Block ${hash} not found`);
+        }
+        const { hash: _hash, height: _height, ...rest } = block;
+        return rest;
+      }
+      case 'start_dkg':
+        return null;
+      default:
+        throw new RpcFailure(METHOD_NOT_FOUND, `Method ${method} not found`);
+    }
+  }
+
+  /**
+   * Decodes a sent transaction and checks its signatures.
+   */
+  private async decodeTransaction(params: unknown): Promise<RuntimeTransaction> {
+    const transaction = decodeRuntimeTransaction(params, '$.params');
+    if (this.options.verifySignatures !== false) {
+      const verification = await verifyTransaction(transaction);
+      if (!verification.valid) {
+        throw new RpcFailure(INVALID_TRANSACTION, describeVerification(verification));
+      }
+    }
+    return transaction;
+  }
+
+  private async receive(params: unknown): Promise<string> {
+    const transaction = await this.decodeTransaction(params);
+    const txid = transactionId(transaction);
+    if (this.transactions.has(txid)) {
+      return txid; // a resend of a transaction the node already has
+    }
+    const record: MockTransactionRecord = { txid, transaction, status: Status.Processing, logs: [] };
+    this.transactions.set(txid, record);
+    this.pending.push(txid);
+    if (!this.options.manualBlocks) {
+      await this.produceBlock();
+    }
+    return txid;
+  }
+
+  private async simulate(params: unknown): Promise<unknown> {
+    const transaction = await this.decodeTransaction(params);
+    const txid = transactionId(transaction);
+    return this.exclusive(async () => {
+      const logs: string[] = [];
+      const { changes, failure } = await this.run(transaction, txid, logs);
+      return {
+        logs,
+        error: failure ?? null,
+        accounts: [...changes].map(([key, account]) => ({ pubkey: Array.from(hexToBytes(key)), account: serializeAccount(account) })),
+      };
+    });
+  }
+
+  /**
+   * Runs a received transaction and commits its changes when every instruction succeeds.
+   */
+  private async execute(record: MockTransactionRecord): Promise<void> {
+    const { changes, failure } = await this.run(record.transaction, record.txid, record.logs);
+    if (failure !== undefined) {
+      record.status = Status.Failed;
+      record.failure = failure;
+      return;
+    }
+    for (const [key, account] of changes) {
+      this.accounts.set(key, account);
+    }
+    record.status = Status.Processed;
+  }
+
+  /**
+   * Runs a transaction against copies of the accounts it touches, without committing anything.
+   * @returns The accounts the transaction changed, or the reason it failed.
+   */
+  private async run(
+    transaction: RuntimeTransaction,
+    txid: string,
+    logs: string[]
+  ): Promise<{ changes: Map<string, StoredAccount>; failure?: string }> {
+    const signers = new Set(transaction.message.signers.map(signer => signer.toString()));
+    const staged = new Map<string, StoredAccount | undefined>();
+    const load = (pubkey: Pubkey): StoredAccount | undefined => {
+      const key = pubkey.toString();
+      if (!staged.has(key)) {
+        const account = this.accounts.get(key);
+        staged.set(key, account && { ...account, data: [...account.data] });
+      }
+      return staged.get(key);
+    };
+
+    try {
+      for (const [index, instruction] of transaction.message.instructions.entries()) {
+        for (const meta of instruction.accounts) {
+          if (meta.is_signer && !signers.has(meta.pubkey.toString())) {
+            throw new Error(`Instruction ${index}: account ${meta.pubkey.toString()} must sign the transaction`);
+          }
+        }
+        if (instruction.program_id.equals(SystemProgram.programId)) {
+          this.runSystemInstruction(instruction, txid, load, staged);
+        } else {
+          await this.runProgram(instruction, txid, logs, load, staged);
+        }
+      }
+    } catch (error) {
+      return { changes: new Map(), failure: error instanceof Error ? error.message : String(error) };
+    }
+
+    const changes = new Map<string, StoredAccount>();
+    for (const [key, account] of staged) {
+      const before = this.accounts.get(key);
+      if (account && (!before || !sameAccount(before, account))) {
+        changes.set(key, account);
+      }
+    }
+    return { changes };
+  }
+
+  private runSystemInstruction(
+    instruction: Instruction,
+    txid: string,
+    load: (pubkey: Pubkey) => StoredAccount | undefined,
+    staged: Map<string, StoredAccount | undefined>
+  ): void {
+    const decoded = SystemProgram.decode(instruction);
+    if (!instruction.accounts[0].is_signer) {
+      throw new Error(`System instructions require ${decoded.account.toString()} to sign`);
+    }
+    const existing = load(decoded.account);
+
+    if (decoded.type === SystemInstructionType.CreateAccount) {
+      if (existing) {
+        throw new Error(`Account ${decoded.account.toString()} already exists`);
+      }
+      staged.set(decoded.account.toString(), {
+        owner: SystemProgram.programId, data: [], utxo: `${decoded.txid}:${decoded.vout}`, is_executable: false,
+      });
+      return;
+    }
+    if (!existing) {
+      throw new Error(`Account ${decoded.account.toString()} not found`);
+    }
+    switch (decoded.type) {
+      case SystemInstructionType.WriteBytes:
+        if (existing.is_executable) {
+          throw new Error(`Account ${decoded.account.toString()} is executable and cannot be written`);
+        }
+        while (existing.data.length < decoded.offset) {
+          existing.data.push(0);
+        }
+        existing.data.splice(decoded.offset, decoded.data.length, ...decoded.data);
+        break;
+      case SystemInstructionType.MakeExecutable:
+        existing.is_executable = true;
+        break;
+      case SystemInstructionType.TransferAccountOwnership:
+        existing.owner = decoded.owner;
+        break;
+    }
+  }
+
+  private async runProgram(
+    instruction: Instruction,
+    txid: string,
+    logs: string[],
+    load: (pubkey: Pubkey) => StoredAccount | undefined,
+    staged: Map<string, StoredAccount | undefined>
+  ): Promise<void> {
+    const { program_id: programId } = instruction;
+    const handler = this.programs.get(programId.toString());
+    if (!handler) {
+      throw new Error(`Program ${programId.toString()} not found`);
+    }
+
+    const accounts: MockAccount[] = instruction.accounts.map(meta => {
+      const account = load(meta.pubkey) ?? { owner: SystemProgram.programId, data: [], utxo: '', is_executable: false };
+      return { ...meta, ...account, data: [...account.data] };
+    });
+    await handler({
+      programId,
+      accounts,
+      data: [...instruction.data],
+      txid,
+      log: message => logs.push(`Program ${programId.toString()}: ${message}`),
+    });
+
+    for (const account of accounts) {
+      const before = load(account.pubkey);
+      const dataChanged = !sameBytes(before?.data ?? [], account.data);
+      const changed = dataChanged || !(before?.owner ?? SystemProgram.programId).equals(account.owner) ||
+        (before?.is_executable ?? false) !== account.is_executable;
+      if (!changed) {
+        continue;
+      }
+      if (!before) {
+        throw new Error(`Program ${programId.toString()} modified account ${account.pubkey.toString()}, which does not exist`);
+      }
+      if (!account.is_writable) {
+        throw new Error(`Program ${programId.toString()} modified read-only account ${account.pubkey.toString()}`);
+      }
+      if (dataChanged && !before.owner.equals(programId)) {
+        throw new Error(`Program ${programId.toString()} modified data of account ${account.pubkey.toString()} it does not own`);
+      }
+      staged.set(account.pubkey.toString(), {
+        owner: account.owner, data: [...account.data], utxo: account.utxo, is_executable: account.is_executable,
+      });
+    }
+  }
+
+  private programAccounts(programId: Pubkey, filters: AccountFilter[]): unknown[] {
+    const matches: unknown[] = [];
+    for (const [key, account] of this.accounts) {
+      if (account.owner.equals(programId) && filters.every(filter => matchesFilter(account, filter))) {
+        matches.push({ pubkey: Array.from(hexToBytes(key)), account: serializeAccount(account) });
+      }
+    }
+    return matches;
+  }
+
+  private appendBlock(txids: string[]): StoredBlock {
+    const height = this.blocks.length;
+    const previous_block_hash = height > 0 ? this.blocks[height - 1].hash : '00'.repeat(32);
+    const merkle_root = bytesToHex(sha256(txids.join('')));
+    const hash = bytesToHex(sha256(`${height}:${previous_block_hash}:${merkle_root}`));
+    const block: StoredBlock = {
+      hash,
+      height,
+      transactions: txids,
+      previous_block_hash,
+      transaction_count: txids.length,
+      timestamp: Date.now(),
+      merkle_root,
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  /**
+   * Runs block production one at a time, so concurrent sends cannot interleave their state changes.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
+
+function transactionId(transaction: RuntimeTransaction): string {
+  return bytesToHex(sha256(bytesToHex(sha256(encodeTransaction(transaction)))));
+}
+
+function sameAccount(a: StoredAccount, b: StoredAccount): boolean {
+  return a.owner.equals(b.owner) && a.utxo === b.utxo && a.is_executable === b.is_executable && sameBytes(a.data, b.data);
+}
+
+function matchesFilter(account: StoredAccount, filter: AccountFilter): boolean {
+  if (filter.dataSize !== undefined && account.data.length !== filter.dataSize) {
+    return false;
+  }
+  if (filter.memcmp) {
+    const expected = hexToBytes(filter.memcmp.bytes);
+    const actual = account.data.slice(filter.memcmp.offset, filter.memcmp.offset + expected.length);
+    if (!sameBytes(actual, expected)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function describeVerification(verification: Awaited<ReturnType<typeof verifyTransaction>>): string {
+  if (verification.missing.length > 0) {
+    return `Missing signatures for ${verification.missing.map(pubkey => pubkey.toString()).join(', ')}`;
+  }
+  if (verification.invalid.length > 0) {
+    return `Invalid signatures for ${verification.invalid.map(pubkey => pubkey.toString()).join(', ')}`;
+  }
+  return `${verification.unexpectedSignatures} unexpected signatures`;
+}
+
+function serializeAccount(account: StoredAccount): unknown {
+  return { ...account, owner: account.owner.serialize() };
+}
+
+function serializeProcessed(record: MockTransactionRecord): unknown {
+  const { transaction } = record;
+  return {
+    runtime_transaction: {
+      version: transaction.version,
+      signatures: transaction.signatures.map(signature => Array.from(hexToBytes(signature))),
+      message: {
+        signers: transaction.message.signers.map(signer => signer.serialize()),
+        instructions: transaction.message.instructions.map(instruction => ({
+          program_id: instruction.program_id.serialize(),
+          accounts: instruction.accounts.map(meta => ({ ...meta, pubkey: meta.pubkey.serialize() })),
+          data: instruction.data,
+        })),
+      },
+    },
+    status: record.status === Status.Failed ? { Failed: record.failure } : Status[record.status],
+    bitcoin_txids: [],
+    logs: record.logs,
+  };
+}
@@ -0,0 +1,226 @@
+import { ArchRpcClient } from './index';
+import { ArchNode, ArchRpcClientOptions, CallOptions, RpcBatchResult, RpcRequest } from './types';
+import { Middleware } from './middleware';
+import { ArchJsonRpcError, ArchRpcError, ArchTransportError } from './errors';
+import { WRITE_METHODS } from './retry';
+import { Transport, createHttpTransport } from './transport';
+
+export interface ArchNodePoolOptions extends ArchRpcClientOptions {
+  healthCheckInterval?: number; // milliseconds a probe result stays fresh, defaults to 30 seconds
+  maxBlockLag?: number; // blocks a node may trail the best node and still serve reads, defaults to 0
+  broadcast?: boolean; // send transactions to every healthy node, defaults to false
+  transport?: (url: string) => Transport; // builds the transport for each node, HTTP by default
+}
+
+export interface NodeHealth {
+  url: string;
+  healthy: boolean;
+  blockCount: number;
+  latency: number; // milliseconds the last probe took
+  lastChecked: number; // epoch milliseconds, 0 if never probed
+  lastError?: ArchRpcError;
+}
+
+interface PoolMember {
+  client: ArchRpcClient;
+  health: NodeHealth;
+}
+
+/**
+ * ArchNodePool talks to several Arch nodes through the regular ArchRpcClient API.
+ *
+ * Nodes are probed with `isNodeReady` and `getBlockCount`. Reads go to the healthy
+ * node with the highest block count and fail over to the next one on transport,
+ * HTTP and timeout errors. JSON-RPC errors are answers from the node and are
+ * returned as-is. Writes go to the best node, or to every healthy node when
+ * `broadcast` is enabled.
+ */
+export class ArchNodePool extends ArchRpcClient {
+  private members: PoolMember[];
+  private healthCheckInterval: number;
+  private maxBlockLag: number;
+  private broadcast: boolean;
+  private probing?: Promise<void>;
+
+  /**
+   * Creates a new node pool.
+   * @param nodes The nodes to use, as URLs or `ArchNode` entries.
+   * @param options Pool routing options plus the client options shared by every node.
+   */
+  constructor(nodes: Array<string | ArchNode>, options: ArchNodePoolOptions = {}) {
+    if (nodes.length === 0) {
+      throw new Error('ArchNodePool requires at least one node');
+    }
+    const urls = nodes.map(node => typeof node === 'string' ? node : node.url);
+    const transports = urls.map(url => options.transport ? options.transport(url) : createHttpTransport(url, { timeout: options.timeout }));
+    // Every call is routed to a member client; the base client shares the first node's transport.
+    super(transports[0], options);
+
+    this.healthCheckInterval = options.healthCheckInterval ?? 30_000;
+    this.maxBlockLag = options.maxBlockLag ?? 0;
+    this.broadcast = options.broadcast ?? false;
+    this.members = urls.map((url, index) => ({
+      client: new ArchRpcClient(transports[index], options),
+      health: { url, healthy: true, blockCount: 0, latency: 0, lastChecked: 0 },
+    }));
+  }
+
+  /**
+   * Appends a middleware to the request chain of every node.
+   * @param middleware The hooks to run on every RPC attempt.
+   * @returns The pool, for chaining.
+   */
+  use(middleware: Middleware): this {
+    this.members.forEach(member => member.client.use(middleware));
+    return this;
+  }
+
+  /**
+   * Releases the connections held by every node's transport.
+   */
+  close(): void {
+    this.members.forEach(member => member.client.close());
+  }
+
+  /**
+   * Returns the latest probe results of every node.
+   * @returns A snapshot of each node's health.
+   */
+  getNodeHealth(): NodeHealth[] {
+    return this.members.map(member => ({ ...member.health }));
+  }
+
+  /**
+   * Probes every node now, regardless of how fresh the previous results are.
+   * @returns A promise that resolves with the new health of each node.
+   */
+  async refresh(): Promise<NodeHealth[]> {
+    await Promise.all(this.members.map(member => this.probe(member)));
+    return this.getNodeHealth();
+  }
+
+  protected async call<T>(method: string, params: any, options: CallOptions = {}): Promise<T> {
+    await this.ensureFresh();
+
+    if (WRITE_METHODS.has(method) && this.broadcast) {
+      return this.broadcastCall<T>(method, params, options);
+    }
+
+    // Writes only fail over when resending them is safe.
+    const failover = !WRITE_METHODS.has(method) || options.idempotent === true;
+    const candidates = this.route();
+    let lastError: unknown;
+
+    for (const member of failover ? candidates : candidates.slice(0, 1)) {
+      try {
+        return await member.client.request<T>(method, params, options);
+      } catch (error) {
+        if (!(error instanceof ArchRpcError) || error instanceof ArchJsonRpcError) {
+          throw error;
+        }
+        this.markUnhealthy(member, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Sends a JSON-RPC batch to the best node. A batch of reads moves on to the next node
+   * when every call in it failed with a transport, HTTP or timeout error.
+   */
+  async batch(requests: RpcRequest[], options: CallOptions = {}): Promise<RpcBatchResult[]> {
+    await this.ensureFresh();
+
+    const failover = requests.every(request => !WRITE_METHODS.has(request.method));
+    const candidates = this.route();
+    let results: RpcBatchResult[] = [];
+
+    for (const member of failover ? candidates : candidates.slice(0, 1)) {
+      results = await member.client.batch(requests, options);
+      const failures = results.filter(
+        (result): result is { ok: false; error: ArchRpcError } => !result.ok && !(result.error instanceof ArchJsonRpcError)
+      );
+      if (requests.length === 0 || failures.length < results.length) {
+        return results;
+      }
+      this.markUnhealthy(member, failures[0].error);
+    }
+    return results;
+  }
+
+  /**
+   * Orders the nodes for a request: healthy nodes within `maxBlockLag` of the best one
+   * first, by block count and then latency, followed by everything else as a last resort.
+   */
+  private route(): PoolMember[] {
+    const byPreference = (a: PoolMember, b: PoolMember) =>
+      b.health.blockCount - a.health.blockCount || a.health.latency - b.health.latency;
+
+    const healthy = this.members.filter(member => member.health.healthy).sort(byPreference);
+    const best = healthy.length > 0 ? healthy[0].health.blockCount : 0;
+    const synced = healthy.filter(member => best - member.health.blockCount <= this.maxBlockLag);
+    const rest = this.members.filter(member => !synced.includes(member)).sort(byPreference);
+    return [...synced, ...rest];
+  }
+
+  private async broadcastCall<T>(method: string, params: any, options: CallOptions): Promise<T> {
+    const targets = this.members.filter(member => member.health.healthy);
+    const members = targets.length > 0 ? targets : this.members;
+
+    return new Promise<T>((resolve, reject) => {
+      const errors: unknown[] = [];
+      members.forEach(member => {
+        member.client.request<T>(method, params, options).then(resolve, error => {
+          if (error instanceof ArchRpcError && !(error instanceof ArchJsonRpcError)) {
+            this.markUnhealthy(member, error);
+          }
+          errors.push(error);
+          if (errors.length === members.length) {
+            reject(errors.find(e => e instanceof ArchJsonRpcError) ?? errors[0]);
+          }
+        });
+      });
+    });
+  }
+
+  private async ensureFresh(): Promise<void> {
+    const stale = this.members.some(member => Date.now() - member.health.lastChecked >= this.healthCheckInterval);
+    if (!stale) {
+      return;
+    }
+    if (!this.probing) {
+      this.probing = this.refresh().then(() => undefined).finally(() => {
+        this.probing = undefined;
+      });
+    }
+    await this.probing;
+  }
+
+  private async probe(member: PoolMember): Promise<void> {
+    const started = Date.now();
+    try {
+      const [ready, blockCount] = await Promise.all([
+        member.client.isNodeReady(),
+        member.client.getBlockCount(),
+      ]);
+      member.health = {
+        url: member.health.url,
+        healthy: ready,
+        blockCount,
+        latency: Date.now() - started,
+        lastChecked: Date.now(),
+      };
+    } catch (error) {
+      const rpcError = error instanceof ArchRpcError
+        ? error
+        : new ArchTransportError(String(error), 'is_node_ready', [], error);
+      member.health = { ...member.health, latency: Date.now() - started, lastChecked: Date.now() };
+      this.markUnhealthy(member, rpcError);
+    }
+  }
+
+  private markUnhealthy(member: PoolMember, error: ArchRpcError): void {
+    member.health = { ...member.health, healthy: false, lastError: error };
+  }
+}
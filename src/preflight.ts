@@ -0,0 +1,176 @@
+import type { ArchRpcClient } from './index';
+import { CallOptions, ProgramAccount, Pubkey, RuntimeTransaction } from './types';
+import { ArchJsonRpcError } from './errors';
+import {
+  MAX_ACCOUNTS_PER_INSTRUCTION,
+  MAX_INSTRUCTIONS,
+  MAX_SIGNERS,
+  MAX_TRANSACTION_SIZE,
+  verifyTransaction
+} from './message';
+
+export type PreflightErrorCode =
+  | 'too_many_signers'
+  | 'too_many_instructions'
+  | 'too_many_accounts'
+  | 'transaction_too_large'
+  | 'duplicate_signer'
+  | 'missing_signer' // an account meta is flagged is_signer but is not in message.signers
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'unexpected_signature'
+  | 'simulation_failed';
+
+export interface PreflightError {
+  code: PreflightErrorCode;
+  message: string;
+  instruction?: number; // the index of the offending instruction
+  account?: Pubkey;
+}
+
+export interface TransactionSize {
+  message: number; // bytes of `encodeMessage`
+  transaction: number; // bytes of `encodeTransaction`: version, signature count, signatures and message
+  limit: number; // MAX_TRANSACTION_SIZE
+}
+
+export interface PreflightOptions extends CallOptions {
+  simulate?: boolean; // run the transaction on the node when it supports simulation, on by default
+}
+
+export interface PreflightReport {
+  ok: boolean; // true when there are no errors
+  size: TransactionSize;
+  errors: PreflightError[];
+  simulated: boolean; // false when simulation was skipped, or the node does not support it
+  logs: string[]; // from the simulation
+  changedAccounts: ProgramAccount[]; // the accounts the simulation would change, with their new state
+}
+
+// The JSON-RPC error code for a method the node does not implement.
+const METHOD_NOT_FOUND_CODE = -32601;
+
+/**
+ * Computes the exact encoded size of a transaction, without encoding it, so transactions
+ * over the count limits can still be measured.
+ * @param transaction The transaction to measure.
+ * @returns The message and transaction sizes in bytes, and the size limit.
+ */
+export function transactionSize(transaction: RuntimeTransaction): TransactionSize {
+  const { signers, instructions } = transaction.message;
+  // signer count, signers, instruction count, then per instruction: program id, account
+  // count, account metas (pubkey and two flags), u64 data length and the data
+  const message = 1 + 32 * signers.length + 1 + instructions.reduce(
+    (total, instruction) => total + 32 + 1 + 34 * instruction.accounts.length + 8 + instruction.data.length,
+    0
+  );
+  return { message, transaction: 4 + 1 + 64 * transaction.signatures.length + message, limit: MAX_TRANSACTION_SIZE };
+}
+
+/**
+ * Checks a transaction offline against the protocol limits, its account metas and its
+ * signatures, without contacting a node.
+ * @param transaction The transaction to check.
+ * @returns A promise that resolves with the report; `simulated` is always false.
+ */
+export async function checkTransaction(transaction: RuntimeTransaction): Promise<PreflightReport> {
+  const { signers, instructions } = transaction.message;
+  const size = transactionSize(transaction);
+  const errors: PreflightError[] = [];
+
+  if (signers.length > MAX_SIGNERS) {
+    errors.push({ code: 'too_many_signers', message: `Transaction has ${signers.length} signers, maximum is ${MAX_SIGNERS}` });
+  }
+  if (instructions.length > MAX_INSTRUCTIONS) {
+    errors.push({
+      code: 'too_many_instructions',
+      message: `Transaction has ${instructions.length} instructions, maximum is ${MAX_INSTRUCTIONS}`,
+    });
+  }
+  if (size.transaction > size.limit) {
+    errors.push({ code: 'transaction_too_large', message: `Transaction is ${size.transaction} bytes, maximum is ${size.limit}` });
+  }
+
+  signers.forEach((signer, index) => {
+    if (signers.findIndex(other => other.equals(signer)) !== index) {
+      errors.push({ code: 'duplicate_signer', message: `Signer ${signer.toString()} is listed more than once`, account: signer });
+    }
+  });
+  instructions.forEach((instruction, index) => {
+    if (instruction.accounts.length > MAX_ACCOUNTS_PER_INSTRUCTION) {
+      errors.push({
+        code: 'too_many_accounts',
+        message: `Instruction ${index} has ${instruction.accounts.length} accounts, maximum is ${MAX_ACCOUNTS_PER_INSTRUCTION}`,
+        instruction: index,
+      });
+    }
+    for (const meta of instruction.accounts) {
+      if (meta.is_signer && !signers.some(signer => signer.equals(meta.pubkey))) {
+        errors.push({
+          code: 'missing_signer',
+          message: `Instruction ${index} requires ${meta.pubkey.toString()} to sign, but it is not a signer of the message`,
+          instruction: index,
+          account: meta.pubkey,
+        });
+      }
+    }
+  });
+
+  // A message over the count limits cannot be encoded, so there is nothing its signatures could sign.
+  if (errors.some(error => error.code.startsWith('too_many_'))) {
+    return { ok: false, size, errors, simulated: false, logs: [], changedAccounts: [] };
+  }
+
+  const verification = await verifyTransaction(transaction);
+  for (const account of verification.missing) {
+    errors.push({ code: 'missing_signature', message: `Missing signature for ${account.toString()}`, account });
+  }
+  for (const account of verification.invalid) {
+    errors.push({ code: 'invalid_signature', message: `Invalid signature for ${account.toString()}`, account });
+  }
+  if (verification.unexpectedSignatures > 0) {
+    errors.push({
+      code: 'unexpected_signature',
+      message: `Transaction has ${verification.unexpectedSignatures} more signatures than signers`,
+    });
+  }
+
+  return { ok: errors.length === 0, size, errors, simulated: false, logs: [], changedAccounts: [] };
+}
+
+/**
+ * Checks a transaction offline, then runs it on the node with `simulate_transaction` to
+ * collect its logs and the accounts it would change. Simulation is skipped when the offline
+ * checks fail, and reported as `simulated: false` when the node does not support it.
+ * @param client The client to simulate with.
+ * @param transaction The signed transaction to check.
+ * @param options Whether to simulate, and the abort signal.
+ * @returns A promise that resolves with the report. Transport failures reject.
+ */
+export async function preflightTransaction(
+  client: ArchRpcClient,
+  transaction: RuntimeTransaction,
+  options: PreflightOptions = {}
+): Promise<PreflightReport> {
+  const { simulate = true, ...callOptions } = options;
+  const report = await checkTransaction(transaction);
+  if (!simulate || !report.ok) {
+    return report;
+  }
+
+  try {
+    const simulation = await client.simulateTransaction(transaction, callOptions);
+    const errors: PreflightError[] = simulation.error === undefined
+      ? []
+      : [{ code: 'simulation_failed', message: simulation.error }];
+    return { ...report, ok: errors.length === 0, errors, simulated: true, logs: simulation.logs, changedAccounts: simulation.accounts };
+  } catch (error) {
+    if (!(error instanceof ArchJsonRpcError)) {
+      throw error;
+    }
+    if (error.code === METHOD_NOT_FOUND_CODE) {
+      return report;
+    }
+    return { ...report, ok: false, errors: [{ code: 'simulation_failed', message: error.message }], simulated: true };
+  }
+}
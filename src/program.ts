@@ -0,0 +1,393 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ArchRpcClient } from './index';
+import { AccountFilter, AccountMeta, CallOptions, Instruction, Pubkey } from './types';
+import { Signer } from './signer';
+import { TransactionBuilder } from './transactionBuilder';
+import { Schema, decode, encode } from './borsh';
+
+/**
+ * A type in an IDL: a Borsh primitive, a container, or a reference to a named type in `types`.
+ */
+export type IdlType =
+  | 'u8' | 'u16' | 'u32' | 'u64' | 'u128'
+  | 'i8' | 'i16' | 'i32' | 'i64' | 'i128'
+  | 'bool' | 'string' | 'pubkey'
+  | { readonly vec: IdlType }
+  | { readonly option: IdlType }
+  | { readonly array: readonly [IdlType, number] }
+  | { readonly defined: string };
+
+export interface IdlField {
+  readonly name: string;
+  readonly type: IdlType;
+}
+
+export type IdlTypeDefinition =
+  | { readonly kind: 'struct'; readonly fields: readonly IdlField[] }
+  | { readonly kind: 'enum'; readonly variants: ReadonlyArray<{ readonly name: string; readonly fields?: readonly IdlField[] }> };
+
+export interface IdlInstructionAccount {
+  readonly name: string;
+  readonly is_signer: boolean;
+  readonly is_writable: boolean;
+}
+
+export interface IdlInstruction {
+  readonly name: string;
+  readonly discriminant?: readonly number[]; // prefix of the instruction data, defaults to the instruction index as a u8
+  readonly accounts: readonly IdlInstructionAccount[];
+  readonly args: readonly IdlField[];
+}
+
+export interface IdlAccount {
+  readonly name: string;
+  readonly discriminator?: readonly number[]; // prefix of the account data, used to filter getProgramAccounts
+  readonly type: IdlTypeDefinition;
+}
+
+/**
+ * A JSON description of an Arch program's instructions, accounts and types. Declare it
+ * `as const` (or pass it inline) so `Program` types each instruction's args.
+ */
+export interface Idl {
+  readonly name: string;
+  readonly version?: string;
+  readonly instructions: readonly IdlInstruction[];
+  readonly accounts?: readonly IdlAccount[];
+  readonly types?: ReadonlyArray<{ readonly name: string; readonly type: IdlTypeDefinition }>;
+}
+
+type IdlDefinitionOf<I, N> =
+  I extends { readonly types: ReadonlyArray<infer T> }
+    ? Extract<T, { readonly name: N }> extends { readonly type: infer D } ? D : never
+    : never;
+
+/**
+ * The value an IDL type encodes from, with `defined` types looked up in the IDL `I`.
+ * Like `Encodable`, 64- and 128-bit integers accept bigint or number.
+ */
+export type IdlValue<T, I extends Idl> =
+  Idl extends I ? any : // an IDL that is not declared `as const`
+  T extends 'u8' | 'u16' | 'u32' | 'i8' | 'i16' | 'i32' ? number :
+  T extends 'u64' | 'u128' | 'i64' | 'i128' ? bigint | number :
+  T extends 'bool' ? boolean :
+  T extends 'string' ? string :
+  T extends 'pubkey' ? Pubkey :
+  T extends { readonly vec: infer U } ? IdlValue<U, I>[] :
+  T extends { readonly option: infer U } ? IdlValue<U, I> | null | undefined :
+  T extends { readonly array: readonly [infer U, number] } ? IdlValue<U, I>[] :
+  T extends { readonly defined: infer N } ? IdlDefinitionValue<IdlDefinitionOf<I, N>, I> :
+  never;
+
+type IdlDefinitionValue<D, I extends Idl> =
+  D extends { readonly kind: 'struct'; readonly fields: infer F } ? IdlFieldsValue<F, I> :
+  D extends { readonly kind: 'enum'; readonly variants: ReadonlyArray<infer V> }
+    ? V extends { readonly name: infer N extends string }
+      ? { [P in N]: V extends { readonly fields: infer F } ? IdlFieldsValue<F, I> : null }
+      : never
+    : never;
+
+type IsOptionField<F> = F extends { readonly type: { readonly option: unknown } } ? true : false;
+
+/**
+ * The object a list of IDL fields encodes from. Fields of `option` type may be omitted.
+ */
+export type IdlFieldsValue<F, I extends Idl> =
+  F extends ReadonlyArray<infer P>
+    ? { [K in P as IsOptionField<K> extends true ? never : K extends { readonly name: infer N extends string } ? N : never]:
+        K extends { readonly type: infer T } ? IdlValue<T, I> : never }
+      & { [K in P as IsOptionField<K> extends true ? K extends { readonly name: infer N extends string } ? N : never : never]?:
+        K extends { readonly type: infer T } ? IdlValue<T, I> : never }
+    : never;
+
+/**
+ * The value an IDL type decodes to, with `defined` types looked up in the IDL `I`.
+ * Like `Infer`, 64- and 128-bit integers decode to bigint and absent options to null.
+ */
+export type IdlDecoded<T, I extends Idl> =
+  Idl extends I ? unknown : // an IDL that is not declared `as const`
+  T extends 'u8' | 'u16' | 'u32' | 'i8' | 'i16' | 'i32' ? number :
+  T extends 'u64' | 'u128' | 'i64' | 'i128' ? bigint :
+  T extends 'bool' ? boolean :
+  T extends 'string' ? string :
+  T extends 'pubkey' ? Pubkey :
+  T extends { readonly vec: infer U } ? IdlDecoded<U, I>[] :
+  T extends { readonly option: infer U } ? IdlDecoded<U, I> | null :
+  T extends { readonly array: readonly [infer U, number] } ? IdlDecoded<U, I>[] :
+  T extends { readonly defined: infer N } ? IdlDefinitionDecoded<IdlDefinitionOf<I, N>, I> :
+  never;
+
+type IdlDefinitionDecoded<D, I extends Idl> =
+  D extends { readonly kind: 'struct'; readonly fields: infer F } ? IdlFieldsDecoded<F, I> :
+  D extends { readonly kind: 'enum'; readonly variants: ReadonlyArray<infer V> }
+    ? V extends { readonly name: infer N extends string }
+      ? { [P in N]: V extends { readonly fields: infer F } ? IdlFieldsDecoded<F, I> : null }
+      : never
+    : never;
+
+/**
+ * The object a list of IDL fields decodes to. Every field is present; absent options are null.
+ */
+export type IdlFieldsDecoded<F, I extends Idl> =
+  F extends ReadonlyArray<infer P>
+    ? { [K in P as K extends { readonly name: infer N extends string } ? N : never]:
+        K extends { readonly type: infer T } ? IdlDecoded<T, I> : never }
+    : never;
+
+/**
+ * The account clients of an IDL's accounts, decoding to the types declared in the IDL.
+ */
+export type IdlAccounts<I extends Idl> =
+  Idl extends I
+    ? Record<string, AccountClient>
+    : { [K in NonNullable<I['accounts']>[number] as K['name']]: AccountClient<IdlDefinitionDecoded<K['type'], I>> };
+
+/**
+ * The builder factories of an IDL's instructions, with args typed from the IDL.
+ */
+export type IdlMethods<I extends Idl> =
+  Idl extends I
+    ? Record<string, (args?: Record<string, any>) => MethodBuilder>
+    : {
+      [K in I['instructions'][number] as K['name']]: K['args'] extends readonly []
+        ? (args?: Record<string, never>) => MethodBuilder
+        : (args: IdlFieldsValue<K['args'], I>) => MethodBuilder
+    };
+
+/**
+ * An account decoded with its IDL layout.
+ */
+export interface DecodedProgramAccount<T = unknown> {
+  pubkey: Pubkey;
+  data: T;
+}
+
+/**
+ * Program is a runtime-typed client for an Arch program described by an IDL.
+ *
+ * @example
+ * const program = new Program(idl, programId, client);
+ * await program.methods.deposit({ amount: 100 }).accounts({ vault, owner: signer.pubkey }).signers([signer]).send();
+ * const vault = await program.account.Vault.fetch(vaultPubkey);
+ */
+export class Program<const I extends Idl = Idl> {
+  /**
+   * One builder factory per IDL instruction, keyed by instruction name.
+   */
+  readonly methods: IdlMethods<I>;
+
+  /**
+   * One account client per IDL account, keyed by account name.
+   */
+  readonly account: IdlAccounts<I>;
+
+  private readonly types: Map<string, IdlTypeDefinition>;
+
+  /**
+   * Creates a program client.
+   * @param idl The program's IDL.
+   * @param programId The program's account.
+   * @param client The client used to send transactions and fetch accounts.
+   */
+  constructor(readonly idl: I, readonly programId: Pubkey, readonly client: ArchRpcClient) {
+    this.types = new Map((idl.types ?? []).map(definition => [definition.name, definition.type]));
+
+    const methods: Record<string, (args?: Record<string, unknown>) => MethodBuilder> = {};
+    idl.instructions.forEach((instruction, index) => {
+      const schema: Schema = { struct: this.fieldsSchema(instruction.args) };
+      const discriminant = instruction.discriminant ?? [index];
+      methods[instruction.name] = (args = {}) =>
+        new MethodBuilder(this, instruction, [...discriminant, ...encodeArgs(instruction, schema, args)]);
+    });
+    this.methods = methods as IdlMethods<I>;
+
+    const accounts: Record<string, AccountClient> = {};
+    (idl.accounts ?? []).forEach(account => {
+      accounts[account.name] = new AccountClient(this, account, this.definitionSchema(account.type));
+    });
+    this.account = accounts as IdlAccounts<I>;
+  }
+
+  private fieldsSchema(fields: readonly IdlField[], seen: string[] = []): Record<string, Schema> {
+    return Object.fromEntries(fields.map(field => [field.name, this.typeSchema(field.type, seen)]));
+  }
+
+  private definitionSchema(definition: IdlTypeDefinition, seen: string[] = []): Schema {
+    if (definition.kind === 'struct') {
+      return { struct: this.fieldsSchema(definition.fields, seen) };
+    }
+    return {
+      enum: Object.fromEntries(definition.variants.map(variant => [
+        variant.name,
+        variant.fields ? { struct: this.fieldsSchema(variant.fields, seen) } : null,
+      ])),
+    };
+  }
+
+  private typeSchema(type: IdlType, seen: string[]): Schema {
+    if (typeof type === 'string') {
+      return type;
+    }
+    if ('vec' in type) {
+      return { vec: this.typeSchema(type.vec, seen) };
+    }
+    if ('option' in type) {
+      return { option: this.typeSchema(type.option, seen) };
+    }
+    if ('array' in type) {
+      return { array: this.typeSchema(type.array[0], seen), len: type.array[1] };
+    }
+    const definition = this.types.get(type.defined);
+    if (!definition) {
+      throw new Error(`Unknown IDL type ${type.defined}`);
+    }
+    if (seen.includes(type.defined)) {
+      throw new Error(`Recursive IDL type ${type.defined}`);
+    }
+    return this.definitionSchema(definition, [...seen, type.defined]);
+  }
+}
+
+/**
+ * Encodes the args of an instruction call, rejecting args the IDL does not declare and
+ * missing args that are not optional.
+ */
+function encodeArgs(instruction: IdlInstruction, schema: Schema, args: Record<string, unknown>): Uint8Array {
+  for (const name of Object.keys(args)) {
+    if (!instruction.args.some(arg => arg.name === name)) {
+      throw new Error(`Unknown argument ${name} for ${instruction.name}`);
+    }
+  }
+  for (const arg of instruction.args) {
+    const optional = typeof arg.type === 'object' && 'option' in arg.type;
+    if (args[arg.name] === undefined && !optional) {
+      throw new Error(`Missing argument ${arg.name} for ${instruction.name}`);
+    }
+  }
+  return encode(schema, args);
+}
+
+/**
+ * Collects the accounts and signers of one instruction call.
+ */
+export class MethodBuilder {
+  private accountPubkeys: Record<string, Pubkey> = {};
+  private extraAccounts: AccountMeta[] = [];
+  private signerList: Signer[] = [];
+
+  constructor(
+    private readonly program: Pick<Program, 'programId' | 'client'>,
+    private readonly definition: IdlInstruction,
+    private readonly data: number[]
+  ) {}
+
+  /**
+   * Sets the accounts named in the IDL.
+   * @param accounts The public key of each IDL account, keyed by account name.
+   * @returns The builder, for chaining.
+   */
+  accounts(accounts: Record<string, Pubkey>): this {
+    this.accountPubkeys = { ...this.accountPubkeys, ...accounts };
+    return this;
+  }
+
+  /**
+   * Appends accounts that are not in the IDL, after the IDL accounts.
+   * @param accounts The extra account metas.
+   * @returns The builder, for chaining.
+   */
+  remainingAccounts(accounts: AccountMeta[]): this {
+    this.extraAccounts.push(...accounts);
+    return this;
+  }
+
+  /**
+   * Sets the signers for the accounts flagged `is_signer`.
+   * @param signers The signers.
+   * @returns The builder, for chaining.
+   */
+  signers(signers: Signer[]): this {
+    this.signerList = signers;
+    return this;
+  }
+
+  /**
+   * Builds the instruction without signing or sending it.
+   * @returns The instruction.
+   */
+  instruction(): Instruction {
+    const accounts = this.definition.accounts.map(account => {
+      const pubkey = this.accountPubkeys[account.name];
+      if (!pubkey) {
+        throw new Error(`Missing account ${account.name} for ${this.definition.name}`);
+      }
+      return { pubkey, is_signer: account.is_signer, is_writable: account.is_writable };
+    });
+    return {
+      program_id: this.program.programId,
+      accounts: [...accounts, ...this.extraAccounts],
+      data: this.data,
+    };
+  }
+
+  /**
+   * Signs and sends the instruction as a transaction.
+   * @param options The abort signal and idempotency of the send.
+   * @returns A promise that resolves with the transaction ID.
+   */
+  async send(options?: CallOptions): Promise<string> {
+    const transaction = await new TransactionBuilder().add(this.instruction()).sign(this.signerList);
+    return this.program.client.sendTransaction(transaction, options);
+  }
+}
+
+/**
+ * Fetches and decodes accounts of one IDL account type. `T` is the decoded account state.
+ */
+export class AccountClient<T = unknown> {
+  constructor(
+    private readonly program: Pick<Program, 'programId' | 'client'>,
+    private readonly definition: IdlAccount,
+    private readonly schema: Schema
+  ) {}
+
+  /**
+   * Decodes raw account data, checking the discriminator when the IDL declares one.
+   * @param data The account data.
+   * @returns The decoded account state.
+   */
+  decode(data: number[] | Uint8Array): T {
+    const discriminator = this.definition.discriminator ?? [];
+    const bytes = Uint8Array.from(data);
+    if (discriminator.some((byte, i) => bytes[i] !== byte)) {
+      throw new Error(`Account data is not a ${this.definition.name}`);
+    }
+    return decode(this.schema, bytes.slice(discriminator.length), { allowTrailingBytes: true }) as T;
+  }
+
+  /**
+   * Fetches and decodes a single account with `readAccountInfo`.
+   * @param pubkey The account to fetch.
+   * @param options The abort signal for this call.
+   * @returns A promise that resolves with the decoded account state.
+   */
+  async fetch(pubkey: Pubkey, options?: CallOptions): Promise<T> {
+    const info = await this.program.client.readAccountInfo(pubkey, options);
+    return this.decode(info.data);
+  }
+
+  /**
+   * Fetches and decodes every account of this type owned by the program.
+   * @param filters Additional filters, applied after the discriminator filter.
+   * @param options The abort signal for this call.
+   * @returns A promise that resolves with the decoded accounts.
+   */
+  async all(filters: AccountFilter[] = [], options?: CallOptions): Promise<DecodedProgramAccount<T>[]> {
+    const discriminator = this.definition.discriminator;
+    const allFilters = discriminator
+      ? [{ memcmp: { offset: 0, bytes: bytesToHex(Uint8Array.from(discriminator)) } }, ...filters]
+      : filters;
+    const accounts = await this.program.client.getProgramAccounts(this.program.programId, allFilters, options);
+    return accounts.map(({ pubkey, account }) => ({ pubkey, data: this.decode(account.data) }));
+  }
+}
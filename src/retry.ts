@@ -0,0 +1,55 @@
+import { ArchHttpError, ArchRpcError, ArchTimeoutError, ArchTransportError } from './errors';
+
+/**
+ * RPC methods that change node state. They are only retried when the caller marks
+ * the call as idempotent, e.g. resending an already signed transaction.
+ */
+export const WRITE_METHODS: ReadonlySet<string> = new Set(['send_transaction', 'send_transactions', 'start_dkg']);
+
+export interface RetryContext {
+  method: string;
+  params: unknown;
+  attempt: number; // zero-based index of the attempt that just failed
+  idempotent: boolean;
+}
+
+export interface RetryOptions {
+  retries?: number; // additional attempts after the first one, defaults to 0
+  minDelay?: number; // milliseconds before the first retry, defaults to 200
+  maxDelay?: number; // upper bound for the backoff in milliseconds, defaults to 5000
+  jitter?: boolean; // randomize each delay between 50% and 100%, defaults to true
+  shouldRetry?: (error: ArchRpcError, context: RetryContext) => boolean;
+}
+
+/**
+ * The default retry predicate: transport failures, timeouts, HTTP 429 and 5xx responses are
+ * retried for read methods, and for write methods only when the call is idempotent.
+ * JSON-RPC errors are answers from the node and are never retried.
+ * @param error The error of the failed attempt.
+ * @param context The method, params and attempt that failed.
+ * @returns True if the call should be attempted again.
+ */
+export function defaultShouldRetry(error: ArchRpcError, context: RetryContext): boolean {
+  if (WRITE_METHODS.has(context.method) && !context.idempotent) {
+    return false;
+  }
+  if (error instanceof ArchTransportError || error instanceof ArchTimeoutError) {
+    return true;
+  }
+  if (error instanceof ArchHttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Computes the exponential backoff delay before the next attempt.
+ * @param attempt The zero-based index of the attempt that just failed.
+ * @param options The retry options.
+ * @returns The delay in milliseconds.
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const { minDelay = 200, maxDelay = 5_000, jitter = true } = options;
+  const delay = Math.min(maxDelay, minDelay * 2 ** attempt);
+  return jitter ? delay * (0.5 + Math.random() / 2) : delay;
+}
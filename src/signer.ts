@@ -0,0 +1,74 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { hexToBytes } from '@noble/hashes/utils';
+import { Pubkey } from './types';
+
+/**
+ * A Signer produces Schnorr signatures over Arch message hashes on behalf of a
+ * single account. Implementations can keep the key in memory or hand the hash
+ * off to a browser wallet, an HSM or a remote signing service.
+ */
+export interface Signer {
+  /**
+   * The x-only public key of the account this signer signs for.
+   */
+  readonly pubkey: Pubkey;
+
+  /**
+   * Signs a message hash.
+   * @param messageHash The 32-byte hash of the encoded message.
+   * @returns A promise that resolves with the 64-byte Schnorr signature.
+   */
+  sign(messageHash: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Signs with a private key held in process memory.
+ */
+export class KeypairSigner implements Signer {
+  public readonly pubkey: Pubkey;
+  protected readonly privateKey: Uint8Array;
+
+  /**
+   * Creates a new in-memory signer.
+   * @param privateKey The 32-byte secp256k1 private key.
+   */
+  constructor(privateKey: Uint8Array) {
+    if (!secp256k1.utils.isValidPrivateKey(privateKey)) {
+      throw new Error('Invalid private key');
+    }
+    this.privateKey = privateKey;
+    this.pubkey = new Pubkey(secp256k1.schnorr.getPublicKey(privateKey));
+  }
+
+  async sign(messageHash: Uint8Array): Promise<Uint8Array> {
+    return secp256k1.schnorr.sign(messageHash, this.privateKey);
+  }
+}
+
+/**
+ * A function that signs a message hash outside of the SDK. It may return the
+ * signature as raw bytes or as a hex string.
+ */
+export type SignFunction = (messageHash: Uint8Array, pubkey: Pubkey) => Promise<Uint8Array | string>;
+
+/**
+ * Delegates signing to an external party such as a browser wallet, an HSM or a
+ * remote signing service. The private key never enters the SDK.
+ */
+export class ExternalSigner implements Signer {
+  /**
+   * Creates a new external signer.
+   * @param pubkey The x-only public key the external party signs for.
+   * @param signFn The function that produces the signature.
+   */
+  constructor(public readonly pubkey: Pubkey, private readonly signFn: SignFunction) {}
+
+  async sign(messageHash: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.signFn(messageHash, this.pubkey);
+    const bytes = typeof signature === 'string' ? hexToBytes(signature) : signature;
+    if (bytes.length !== 64) {
+      throw new Error(`Invalid signature length from signer ${this.pubkey.toString()}`);
+    }
+    return bytes;
+  }
+}
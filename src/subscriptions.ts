@@ -0,0 +1,256 @@
+import { Logger } from './middleware';
+import { RetryOptions, backoffDelay } from './retry';
+
+/**
+ * The subset of the WebSocket API subscriptions use. Browsers and Node.js 22+ provide it
+ * globally; on older Node.js versions pass the `ws` package's `WebSocket`.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface SubscriptionOptions {
+  url?: string; // the node's WebSocket endpoint; subscriptions poll over RPC when unset
+  WebSocket?: WebSocketConstructor; // defaults to the global WebSocket
+  pollInterval?: number; // milliseconds between polls, defaults to 1000
+  reconnect?: Pick<RetryOptions, 'minDelay' | 'maxDelay' | 'jitter'>; // backoff between reconnection attempts
+}
+
+/**
+ * A handle to an active subscription.
+ */
+export interface Subscription {
+  /**
+   * Stops the subscription. Safe to call more than once.
+   */
+  unsubscribe(): void;
+}
+
+/**
+ * One subscription: the WebSocket topic and filter that signal a change, and the check
+ * that fetches the current state over RPC and reports any difference to the callback.
+ */
+export interface Watch {
+  topic: string;
+  filter: Record<string, unknown>;
+  check(): Promise<void>;
+}
+
+interface ActiveWatch extends Watch {
+  serverId?: string;
+  running: boolean;
+  again: boolean;
+}
+
+const OPEN = 1;
+
+/**
+ * SubscriptionHub runs every subscription of a client over one shared WebSocket, or one
+ * shared poll loop when the node has no WebSocket endpoint.
+ *
+ * WebSocket messages only signal that something changed; the state itself is always
+ * re-read over RPC, so pushed and polled subscriptions report the same values. After
+ * every (re)connection each subscription is checked once to catch changes missed while
+ * disconnected.
+ */
+export class SubscriptionHub {
+  private readonly watches = new Map<number, ActiveWatch>();
+  private nextId = 0;
+  private polling: boolean;
+  private pollTimer?: ReturnType<typeof setTimeout>;
+  private socket?: WebSocketLike;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempt = 0;
+  private everConnected = false;
+
+  constructor(private readonly options: SubscriptionOptions, private readonly logger: Logger) {
+    this.polling = !options.url || !this.webSocketConstructor();
+  }
+
+  /**
+   * Starts a subscription.
+   * @param watch The topic, filter and state check of the subscription.
+   * @returns The handle that stops it.
+   */
+  add(watch: Watch): Subscription {
+    const id = this.nextId++;
+    const active: ActiveWatch = { ...watch, running: false, again: false };
+    this.watches.set(id, active);
+    void this.run(active);
+
+    if (this.polling) {
+      this.schedulePoll();
+    } else if (this.socket?.readyState === OPEN) {
+      this.subscribe(id, active);
+    } else {
+      this.connect();
+    }
+    return { unsubscribe: () => this.remove(id) };
+  }
+
+  private remove(id: number): void {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      return;
+    }
+    this.watches.delete(id);
+    if (watch.serverId !== undefined && this.socket?.readyState === OPEN) {
+      this.socket.send(JSON.stringify({
+        method: 'unsubscribe',
+        params: { topic: watch.topic, subscription_id: watch.serverId },
+      }));
+    }
+    if (this.watches.size === 0) {
+      this.stop();
+    }
+  }
+
+  private stop(): void {
+    clearTimeout(this.pollTimer);
+    clearTimeout(this.reconnectTimer);
+    this.pollTimer = undefined;
+    this.reconnectTimer = undefined;
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private async run(watch: ActiveWatch): Promise<void> {
+    if (watch.running) {
+      watch.again = true; // coalesce changes signalled while a check is in flight
+      return;
+    }
+    watch.running = true;
+    try {
+      do {
+        watch.again = false;
+        await watch.check();
+      } while (watch.again && this.isActive(watch));
+    } catch (error) {
+      this.logger.warn('Subscription check failed', { topic: watch.topic, error });
+    } finally {
+      watch.running = false;
+    }
+  }
+
+  private isActive(watch: ActiveWatch): boolean {
+    return Array.from(this.watches.values()).includes(watch);
+  }
+
+  private schedulePoll(): void {
+    if (this.pollTimer !== undefined) {
+      return;
+    }
+    this.pollTimer = setTimeout(async () => {
+      await Promise.all(Array.from(this.watches.values(), watch => this.run(watch)));
+      this.pollTimer = undefined;
+      if (this.watches.size > 0 && this.polling) {
+        this.schedulePoll();
+      }
+    }, this.options.pollInterval ?? 1_000);
+  }
+
+  private webSocketConstructor(): WebSocketConstructor | undefined {
+    return this.options.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer !== undefined) {
+      return;
+    }
+    const WebSocketImpl = this.webSocketConstructor()!;
+    let socket: WebSocketLike;
+    try {
+      socket = new WebSocketImpl(this.options.url!);
+    } catch (error) {
+      this.handleClose(error);
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.everConnected = true;
+      this.reconnectAttempt = 0;
+      this.logger.debug('Subscription socket connected', { url: this.options.url });
+      this.watches.forEach((watch, id) => {
+        this.subscribe(id, watch);
+        void this.run(watch);
+      });
+    };
+    socket.onmessage = event => this.handleMessage(event.data);
+    socket.onerror = () => {}; // a close event always follows
+    socket.onclose = event => {
+      this.socket = undefined;
+      this.handleClose(event);
+    };
+  }
+
+  private handleClose(reason: unknown): void {
+    this.watches.forEach(watch => {
+      watch.serverId = undefined;
+    });
+    if (this.watches.size === 0) {
+      return;
+    }
+    if (!this.everConnected) {
+      this.logger.warn('Subscription socket unavailable, falling back to polling', { url: this.options.url, reason });
+      this.polling = true;
+      this.schedulePoll();
+      return;
+    }
+    const delay = backoffDelay(this.reconnectAttempt++, { minDelay: 500, maxDelay: 30_000, ...this.options.reconnect });
+    this.logger.warn('Subscription socket closed, reconnecting', { url: this.options.url, delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay);
+  }
+
+  private subscribe(id: number, watch: ActiveWatch): void {
+    this.socket!.send(JSON.stringify({
+      method: 'subscribe',
+      params: { topic: watch.topic, filter: watch.filter, request_id: String(id) },
+    }));
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: any;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      this.logger.warn('Ignoring malformed subscription message', { data });
+      return;
+    }
+
+    if (message.status === 'Subscribed' && message.request_id !== undefined) {
+      const watch = this.watches.get(Number(message.request_id));
+      if (watch) {
+        watch.serverId = String(message.subscription_id);
+      }
+      return;
+    }
+    if (typeof message.topic !== 'string') {
+      return;
+    }
+
+    // Route by subscription ID when the node sends one, otherwise re-check every
+    // subscription on the topic; checks only report actual differences.
+    const subscriptionId = message.subscription_id !== undefined ? String(message.subscription_id) : undefined;
+    this.watches.forEach(watch => {
+      if (watch.topic === message.topic && (subscriptionId === undefined || watch.serverId === subscriptionId)) {
+        void this.run(watch);
+      }
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Instruction, Pubkey } from './types';
+
+/**
+ * The instruction tags understood by the system program.
+ */
+export enum SystemInstructionType {
+  CreateAccount = 0,
+  WriteBytes = 1,
+  MakeExecutable = 2,
+  TransferAccountOwnership = 3
+}
+
+export type SystemInstruction =
+  | { type: SystemInstructionType.CreateAccount; account: Pubkey; txid: string; vout: number }
+  | { type: SystemInstructionType.WriteBytes; account: Pubkey; offset: number; data: number[] }
+  | { type: SystemInstructionType.MakeExecutable; account: Pubkey }
+  | { type: SystemInstructionType.TransferAccountOwnership; account: Pubkey; owner: Pubkey };
+
+/**
+ * SystemProgram builds and decodes system program instructions. It needs no client
+ * and does no signing; every instruction targets a single signer+writable account.
+ */
+export class SystemProgram {
+  /**
+   * The system program ID.
+   */
+  static readonly programId: Pubkey = Pubkey.systemProgram();
+
+  /**
+   * Creates an account backed by a Bitcoin UTXO.
+   * @param account The public key of the new account.
+   * @param txid The Bitcoin transaction ID of the UTXO.
+   * @param vout The output index of the UTXO.
+   * @returns The create account instruction.
+   */
+  static createAccount(account: Pubkey, txid: string, vout: number): Instruction {
+    const txidBytes = hexToBytes(txid);
+    if (txidBytes.length !== 32) {
+      throw new Error('txid must be 32 bytes');
+    }
+    const data = new Uint8Array(37);
+    data[0] = SystemInstructionType.CreateAccount;
+    data.set(txidBytes, 1);
+    new DataView(data.buffer).setUint32(33, vout, true);
+    return SystemProgram.instruction(account, data);
+  }
+
+  /**
+   * Writes bytes into an account's data, e.g. a chunk of a program binary.
+   * @param account The account to write to.
+   * @param offset The byte offset in the account data.
+   * @param data The bytes to write.
+   * @returns The write bytes instruction.
+   */
+  static writeBytes(account: Pubkey, offset: number, data: Uint8Array | number[]): Instruction {
+    const encoded = new Uint8Array(9 + data.length);
+    const view = new DataView(encoded.buffer);
+    encoded[0] = SystemInstructionType.WriteBytes;
+    view.setUint32(1, offset, true);
+    view.setUint32(5, data.length, true);
+    encoded.set(data, 9);
+    return SystemProgram.instruction(account, encoded);
+  }
+
+  /**
+   * Marks an account as executable, deploying the program written to its data.
+   * @param account The program account.
+   * @returns The make executable instruction.
+   */
+  static makeExecutable(account: Pubkey): Instruction {
+    return SystemProgram.instruction(account, new Uint8Array([SystemInstructionType.MakeExecutable]));
+  }
+
+  /**
+   * Changes the owner of an account, typically to a program.
+   * @param account The account to transfer.
+   * @param owner The new owner.
+   * @returns The transfer account ownership instruction.
+   */
+  static transferAccountOwnership(account: Pubkey, owner: Pubkey): Instruction {
+    const data = new Uint8Array(33);
+    data[0] = SystemInstructionType.TransferAccountOwnership;
+    data.set(owner.bytes, 1);
+    return SystemProgram.instruction(account, data);
+  }
+
+  /**
+   * Decodes a system program instruction.
+   * @param instruction The instruction to decode.
+   * @returns The typed instruction.
+   */
+  static decode(instruction: Instruction): SystemInstruction {
+    if (!instruction.program_id.equals(SystemProgram.programId)) {
+      throw new Error(`Not a system program instruction: ${instruction.program_id.toString()}`);
+    }
+    if (instruction.accounts.length !== 1) {
+      throw new Error(`System instructions take 1 account, got ${instruction.accounts.length}`);
+    }
+
+    if (instruction.data.length === 0) {
+      throw new Error('System instruction data is empty');
+    }
+
+    const account = instruction.accounts[0].pubkey;
+    const data = Uint8Array.from(instruction.data);
+    const view = new DataView(data.buffer);
+    const expectLength = (length: number) => {
+      if (data.length !== length) {
+        throw new Error(`Invalid data length ${data.length} for system instruction ${data[0]}, expected ${length}`);
+      }
+    };
+
+    switch (data[0]) {
+      case SystemInstructionType.CreateAccount:
+        expectLength(37);
+        return {
+          type: SystemInstructionType.CreateAccount,
+          account,
+          txid: bytesToHex(data.slice(1, 33)),
+          vout: view.getUint32(33, true),
+        };
+      case SystemInstructionType.WriteBytes: {
+        if (data.length < 9) {
+          expectLength(9);
+        }
+        const length = view.getUint32(5, true);
+        expectLength(9 + length);
+        return {
+          type: SystemInstructionType.WriteBytes,
+          account,
+          offset: view.getUint32(1, true),
+          data: Array.from(data.slice(9)),
+        };
+      }
+      case SystemInstructionType.MakeExecutable:
+        expectLength(1);
+        return { type: SystemInstructionType.MakeExecutable, account };
+      case SystemInstructionType.TransferAccountOwnership:
+        expectLength(33);
+        return {
+          type: SystemInstructionType.TransferAccountOwnership,
+          account,
+          owner: new Pubkey(data.slice(1, 33)),
+        };
+      default:
+        throw new Error(`Unknown system instruction ${data[0]}`);
+    }
+  }
+
+  private static instruction(account: Pubkey, data: Uint8Array): Instruction {
+    return {
+      program_id: SystemProgram.programId,
+      accounts: [{
+        pubkey: account,
+        is_signer: true,
+        is_writable: true,
+      }],
+      data: Array.from(data),
+    };
+  }
+}
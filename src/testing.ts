@@ -0,0 +1,3 @@
+// Test helpers that need Node.js, kept out of the main entry point so browser bundles
+// do not pull in `http`. Import them from 'arch-typescript-sdk/testing'.
+export * from './mockNode';
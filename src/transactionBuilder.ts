@@ -0,0 +1,109 @@
+import { AccountMeta, Instruction, Message, Pubkey, RuntimeTransaction } from './types';
+import { Signer } from './signer';
+import {
+  MAX_ACCOUNTS_PER_INSTRUCTION,
+  MAX_INSTRUCTIONS,
+  MAX_SIGNERS,
+  signMessage
+} from './message';
+
+/**
+ * TransactionBuilder composes several instructions into one atomic transaction.
+ *
+ * The signer list is derived from the `is_signer` flags of every account meta, in
+ * order of first appearance. When the same account appears more than once, its
+ * `is_signer` and `is_writable` flags are merged so every occurrence carries the
+ * strongest permissions requested anywhere in the transaction.
+ */
+export class TransactionBuilder {
+  private readonly instructions: Instruction[] = [];
+
+  /**
+   * Appends one or more instructions to the transaction.
+   * @param instructions The instructions to append, executed in order.
+   * @returns The builder, for chaining.
+   */
+  add(...instructions: Instruction[]): this {
+    this.instructions.push(...instructions);
+    return this;
+  }
+
+  /**
+   * Creates and appends an instruction.
+   * @param program_id The program ID for the instruction.
+   * @param accounts The accounts involved in the instruction.
+   * @param data The data for the instruction.
+   * @returns The builder, for chaining.
+   */
+  addInstruction(program_id: Pubkey, accounts: AccountMeta[], data: number[]): this {
+    return this.add({ program_id, accounts, data });
+  }
+
+  /**
+   * Compiles the collected instructions into a message.
+   * @returns The compiled message.
+   */
+  compileMessage(): Message {
+    if (this.instructions.length === 0) {
+      throw new Error('Transaction must contain at least one instruction');
+    }
+    if (this.instructions.length > MAX_INSTRUCTIONS) {
+      throw new Error(`Transaction has ${this.instructions.length} instructions, maximum is ${MAX_INSTRUCTIONS}`);
+    }
+
+    const merged = new Map<string, { is_signer: boolean; is_writable: boolean }>();
+    const signers: Pubkey[] = [];
+
+    this.instructions.forEach((instruction, index) => {
+      if (instruction.accounts.length > MAX_ACCOUNTS_PER_INSTRUCTION) {
+        throw new Error(
+          `Instruction ${index} has ${instruction.accounts.length} accounts, maximum is ${MAX_ACCOUNTS_PER_INSTRUCTION}`
+        );
+      }
+      instruction.accounts.forEach(account => {
+        const key = account.pubkey.toString();
+        const flags = merged.get(key) ?? { is_signer: false, is_writable: false };
+        if (account.is_signer && !flags.is_signer) {
+          signers.push(account.pubkey);
+        }
+        merged.set(key, {
+          is_signer: flags.is_signer || account.is_signer,
+          is_writable: flags.is_writable || account.is_writable,
+        });
+      });
+    });
+
+    if (signers.length > MAX_SIGNERS) {
+      throw new Error(`Transaction has ${signers.length} signers, maximum is ${MAX_SIGNERS}`);
+    }
+
+    const instructions = this.instructions.map(instruction => ({
+      program_id: instruction.program_id,
+      accounts: instruction.accounts.map(account => ({
+        pubkey: account.pubkey,
+        ...merged.get(account.pubkey.toString())!,
+      })),
+      data: instruction.data,
+    }));
+
+    return { signers, instructions };
+  }
+
+  /**
+   * Compiles and signs the transaction.
+   * @param signers The signers for every account flagged `is_signer`. Fails before signing
+   *                if any of those accounts has no matching signer.
+   * @returns A promise that resolves with a transaction ready for `sendTransaction`.
+   */
+  async sign(signers: Signer[]): Promise<RuntimeTransaction> {
+    const message = this.compileMessage();
+    const provided = new Set(signers.map(signer => signer.pubkey.toString()));
+    const missing = message.signers.filter(pubkey => !provided.has(pubkey.toString()));
+    if (missing.length > 0) {
+      throw new Error(`Missing signers for ${missing.map(pubkey => pubkey.toString()).join(', ')}`);
+    }
+
+    const signatures = await signMessage(message, signers);
+    return { version: 0, signatures, message };
+  }
+}
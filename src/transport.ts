@@ -0,0 +1,409 @@
+import { WebSocketConstructor, WebSocketLike } from './subscriptions';
+import { abortReason, loadAxios } from './utils';
+
+export interface TransportRequest {
+  body: unknown; // a JSON-RPC request object, or an array of them for a batch
+  headers: Record<string, string>; // extra headers from middleware, for transports that have headers
+  signal?: AbortSignal;
+}
+
+/**
+ * Transport carries JSON-RPC request bodies to a node and returns the parsed response
+ * bodies. The client builds the envelopes and interprets the responses; a transport only
+ * moves them.
+ *
+ * Reject with `TransportHttpError` when the node answers with a failure status, and with
+ * `TransportTimeoutError` when the request times out. Any other rejection is reported as
+ * an `ArchTransportError`.
+ */
+export interface Transport {
+  /**
+   * Sends one request body.
+   * @param request The body, extra headers and abort signal.
+   * @returns A promise that resolves with the response body.
+   */
+  request(request: TransportRequest): Promise<unknown>;
+
+  /**
+   * Releases connections held by the transport. Optional.
+   */
+  close?(): void;
+}
+
+/**
+ * The node answered with a non-2xx HTTP status. `body` holds the parsed response body,
+ * which may still carry a JSON-RPC error.
+ */
+export class TransportHttpError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, public readonly status: number, public readonly body?: unknown, cause?: unknown) {
+    super(message);
+    this.name = 'TransportHttpError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request did not complete within the transport's timeout.
+ */
+export class TransportTimeoutError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, public readonly timeout?: number, cause?: unknown) {
+    super(message);
+    this.name = 'TransportTimeoutError';
+    this.cause = cause;
+  }
+}
+
+export interface HttpTransportOptions {
+  timeout?: number; // per-request timeout in milliseconds, no timeout by default
+  headers?: Record<string, string>; // sent with every request
+}
+
+/**
+ * The part of an axios instance `AxiosTransport` uses.
+ */
+export interface AxiosLike {
+  post(url: string, data: unknown, config: { signal?: AbortSignal; headers?: Record<string, string> }): Promise<{ data: unknown }>;
+}
+
+/**
+ * An HTTP transport over axios. Pass a URL, or an axios instance configured elsewhere
+ * (proxies, interceptors, custom agents). axios is an optional peer dependency; install
+ * it to use this transport.
+ */
+export class AxiosTransport implements Transport {
+  private readonly axios: AxiosLike;
+
+  /**
+   * Creates an axios transport.
+   * @param endpoint The URL of the Arch RPC endpoint, or an axios instance whose base URL is the endpoint.
+   * @param options The timeout and headers, used when `endpoint` is a URL.
+   */
+  constructor(endpoint: string | AxiosLike, private readonly options: HttpTransportOptions = {}) {
+    if (typeof endpoint !== 'string') {
+      this.axios = endpoint;
+      return;
+    }
+    const axios = loadAxios();
+    if (!axios) {
+      throw new Error('AxiosTransport needs the axios package; install it or use FetchTransport');
+    }
+    this.axios = axios.create({
+      baseURL: endpoint,
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      timeout: options.timeout,
+    });
+  }
+
+  async request({ body, headers, signal }: TransportRequest): Promise<unknown> {
+    try {
+      const response = await this.axios.post('', body, { signal, headers });
+      return response.data;
+    } catch (error) {
+      if (isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new TransportTimeoutError(error.message, this.options.timeout, error);
+        }
+        if (error.response) {
+          throw new TransportHttpError(error.message, error.response.status, error.response.data, error);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+interface AxiosErrorLike {
+  isAxiosError: true;
+  message: string;
+  code?: string;
+  response?: { status: number; data: unknown };
+}
+
+function isAxiosError(error: unknown): error is AxiosErrorLike {
+  return typeof error === 'object' && error !== null && (error as { isAxiosError?: unknown }).isAxiosError === true;
+}
+
+/**
+ * Creates the transport a client uses for a plain URL: axios when it is installed,
+ * otherwise the Fetch API.
+ * @param url The URL of the Arch RPC endpoint.
+ * @param options The timeout and headers.
+ * @returns The transport.
+ */
+export function createHttpTransport(url: string, options: HttpTransportOptions = {}): Transport {
+  return loadAxios() ? new AxiosTransport(url, options) : new FetchTransport(url, options);
+}
+
+export interface FetchTransportOptions extends HttpTransportOptions {
+  fetch?: typeof fetch; // defaults to the global fetch
+}
+
+/**
+ * An HTTP transport over the Fetch API, for browsers, edge runtimes, React Native and
+ * Node.js 18+, without axios.
+ */
+export class FetchTransport implements Transport {
+  /**
+   * Creates a fetch transport.
+   * @param url The URL of the Arch RPC endpoint.
+   * @param options The timeout, headers and fetch implementation.
+   */
+  constructor(private readonly url: string, private readonly options: FetchTransportOptions = {}) {}
+
+  async request({ body, headers, signal }: TransportRequest): Promise<unknown> {
+    const fetchImpl = this.options.fetch ?? (globalThis as { fetch?: typeof fetch }).fetch;
+    if (!fetchImpl) {
+      throw new Error('No global fetch is available; pass options.fetch');
+    }
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    const { timeout } = this.options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = timeout === undefined ? undefined : setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    try {
+      const response = await fetchImpl(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers, ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      const data = parseBody(text);
+      if (!response.ok) {
+        throw new TransportHttpError(`Request failed with status code ${response.status}`, response.status, data);
+      }
+      return data;
+    } catch (error) {
+      if (timedOut) {
+        throw new TransportTimeoutError(`timeout of ${timeout}ms exceeded`, timeout, error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Handles a JSON-RPC request body in process, e.g. `MockArchNode.handle`.
+ */
+export type JsonRpcHandler = (body: unknown) => unknown | Promise<unknown>;
+
+/**
+ * A transport that hands request bodies to a function in the same process, for tests.
+ * Bodies go through a JSON round trip both ways, as they would on the wire.
+ */
+export class InMemoryTransport implements Transport {
+  /**
+   * Every request body received, in order, for assertions.
+   */
+  readonly requests: unknown[] = [];
+
+  /**
+   * Creates an in-memory transport.
+   * @param handler The function that answers each request body.
+   */
+  constructor(private readonly handler: JsonRpcHandler) {}
+
+  async request({ body, signal }: TransportRequest): Promise<unknown> {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    const sent = JSON.parse(JSON.stringify(body));
+    this.requests.push(sent);
+    const response = await this.handler(sent);
+    return response === undefined ? undefined : JSON.parse(JSON.stringify(response));
+  }
+}
+
+export interface WebSocketTransportOptions {
+  WebSocket?: WebSocketConstructor; // defaults to the global WebSocket
+  timeout?: number; // milliseconds to wait for each response, defaults to 30000
+}
+
+interface WireResponse {
+  id?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+interface PendingRequest {
+  ids: string[]; // the transport's ids of the requests, in order
+  originalIds: unknown[];
+  batch: boolean;
+  sent: boolean; // false while the socket is still connecting
+  responses: Map<string, WireResponse>;
+  resolve(body: unknown): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * A transport that sends JSON-RPC over one WebSocket connection. Requests are matched
+ * to responses by id; the transport assigns its own ids on the wire, so several clients
+ * can share it. The socket connects on the first request and again after it closes.
+ */
+export class WebSocketTransport implements Transport {
+  private socket?: WebSocketLike;
+  private connecting?: Promise<WebSocketLike>;
+  private readonly pending = new Map<string, PendingRequest>();
+  private nextId = 0;
+
+  /**
+   * Creates a WebSocket transport.
+   * @param url The node's WebSocket endpoint.
+   * @param options The WebSocket implementation and response timeout.
+   */
+  constructor(private readonly url: string, private readonly options: WebSocketTransportOptions = {}) {}
+
+  async request({ body, signal }: TransportRequest): Promise<unknown> {
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    const requests = (Array.isArray(body) ? body : [body]) as Array<Record<string, unknown>>;
+    const ids = requests.map(() => `ws-${++this.nextId}`);
+    const { timeout = 30_000 } = this.options;
+
+    // The timeout and signal cover connecting as well as waiting for the response.
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = <A>(fn: (arg: A) => void) => (arg: A) => {
+        settled = true;
+        ids.forEach(id => this.pending.delete(id));
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        fn(arg);
+      };
+      const entry: PendingRequest = {
+        ids,
+        originalIds: requests.map(request => request?.id),
+        batch: Array.isArray(body),
+        sent: false,
+        responses: new Map(),
+        resolve: settle(resolve),
+        reject: settle(reject),
+      };
+      const onAbort = () => entry.reject(abortReason(signal!));
+      const timer = setTimeout(() => entry.reject(new TransportTimeoutError(`timeout of ${timeout}ms exceeded`, timeout)), timeout);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      ids.forEach(id => this.pending.set(id, entry));
+
+      this.connect().then(socket => {
+        if (settled) {
+          return;
+        }
+        const wire = requests.map((request, index) => ({ ...request, id: ids[index] }));
+        try {
+          socket.send(JSON.stringify(entry.batch ? wire : wire[0]));
+          entry.sent = true;
+        } catch (error) {
+          entry.reject(error);
+        }
+      }, entry.reject);
+    });
+  }
+
+  /**
+   * Closes the socket and rejects every request still waiting for a response.
+   */
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.connecting = undefined;
+    this.rejectAll(new Error('WebSocket transport closed'));
+    socket?.close();
+  }
+
+  private connect(): Promise<WebSocketLike> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+    const WebSocketImpl = this.options.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocketImpl) {
+      return Promise.reject(new Error('No global WebSocket is available; pass options.WebSocket'));
+    }
+
+    this.connecting = new Promise((resolve, reject) => {
+      const socket = new WebSocketImpl(this.url);
+      let opened = false;
+      socket.onopen = () => {
+        opened = true;
+        this.socket = socket;
+        this.connecting = undefined;
+        resolve(socket);
+      };
+      socket.onmessage = event => this.receive(event.data);
+      socket.onerror = () => {
+        if (!opened) {
+          this.connecting = undefined;
+          reject(new Error(`Could not connect to ${this.url}`));
+        }
+      };
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+          this.rejectAll(new Error('WebSocket closed'));
+        }
+        if (!opened) {
+          this.connecting = undefined;
+          reject(new Error(`Could not connect to ${this.url}`));
+        }
+      };
+    });
+    return this.connecting;
+  }
+
+  private receive(data: unknown): void {
+    const message = parseBody(String(data));
+    for (const item of Array.isArray(message) ? message : [message]) {
+      if (typeof item !== 'object' || item === null) {
+        continue;
+      }
+      const response = item as WireResponse;
+      if (response.id === null && response.error) {
+        // The node could not read a request's id, e.g. for malformed JSON. The oldest request
+        // on the wire is the likeliest sender; it gets the error instead of a timeout.
+        [...this.pending.values()].find(entry => entry.sent)?.resolve(response);
+        continue;
+      }
+      const entry = typeof response.id === 'string' ? this.pending.get(response.id) : undefined;
+      if (!entry) {
+        continue; // unknown ids, e.g. a response that arrived after its timeout
+      }
+      entry.responses.set(response.id as string, response);
+      if (entry.responses.size === entry.ids.length) {
+        const restored = entry.ids.map((id, index) => ({ ...entry.responses.get(id), id: entry.originalIds[index] }));
+        entry.resolve(entry.batch ? restored : restored[0]);
+      }
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const entry of new Set(this.pending.values())) {
+      entry.reject(error);
+    }
+  }
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -1,6 +1,43 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { base58, bech32m } from '@scure/base';
 import { Buffer } from 'buffer';
+import { RetryOptions } from './retry';
+import { Logger, Middleware } from './middleware';
+import { ArchRpcError } from './errors';
+import { SubscriptionOptions } from './subscriptions';
+
+/**
+ * The most seeds `createProgramAddress` accepts, bump seed included.
+ */
+export const MAX_SEEDS = 16;
+
+/**
+ * The longest seed `createProgramAddress` accepts, in bytes.
+ */
+export const MAX_SEED_LENGTH = 32;
 
 export class Pubkey {
+  /**
+   * The system program, which creates accounts and assigns their owners.
+   */
+  static readonly SYSTEM_PROGRAM: Pubkey = Pubkey.systemProgram();
+
+  /**
+   * The APL token program, Arch's SPL-token equivalent.
+   */
+  static readonly APL_TOKEN_PROGRAM: Pubkey = Pubkey.fromAscii('apl-token00000000000000000000000');
+
+  /**
+   * The associated token account program, which derives each owner's token account for a mint.
+   */
+  static readonly ASSOCIATED_TOKEN_PROGRAM: Pubkey = Pubkey.fromAscii('associated-token-account00000000');
+
+  /**
+   * The all-zero pubkey, used as a placeholder for unset owners.
+   */
+  static readonly DEFAULT: Pubkey = new Pubkey(new Uint8Array(32));
+
   constructor(public readonly bytes: Uint8Array) {
     if (bytes.length !== 32) {
       throw new Error('Pubkey must be 32 bytes');
@@ -15,26 +52,203 @@ export class Pubkey {
     return new Pubkey(bytes);
   }
 
+  /**
+   * Parses a base58 pubkey.
+   * @param s The base58 string.
+   * @returns The pubkey.
+   */
+  static fromBase58(s: string): Pubkey {
+    let bytes: Uint8Array;
+    try {
+      bytes = base58.decode(s);
+    } catch {
+      throw new Error('Invalid base58 pubkey');
+    }
+    if (bytes.length !== 32) {
+      throw new Error('Invalid base58 pubkey');
+    }
+    return new Pubkey(bytes);
+  }
+
+  /**
+   * Parses a bech32m pubkey.
+   * @param s The bech32m string.
+   * @param prefix The expected human-readable prefix. Any prefix is accepted when omitted.
+   * @returns The pubkey.
+   */
+  static fromBech32m(s: string, prefix?: string): Pubkey {
+    let decoded: { prefix: string; words: number[] };
+    try {
+      decoded = bech32m.decode(s as `${string}1${string}`);
+    } catch {
+      throw new Error('Invalid bech32m pubkey');
+    }
+    if (prefix !== undefined && decoded.prefix !== prefix) {
+      throw new Error(`Expected bech32m prefix ${prefix}, got ${decoded.prefix}`);
+    }
+    const bytes = bech32m.fromWordsUnsafe(decoded.words);
+    if (!bytes || bytes.length !== 32) {
+      throw new Error('Invalid bech32m pubkey');
+    }
+    return new Pubkey(bytes);
+  }
+
+  /**
+   * Parses a pubkey in any supported format: 64 hex characters, bech32m or base58.
+   * @param s The encoded pubkey.
+   * @returns The pubkey.
+   */
+  static parse(s: string): Pubkey {
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(s)) {
+      return Pubkey.fromString(s.replace(/^0x/, ''));
+    }
+    try {
+      return Pubkey.fromBech32m(s);
+    } catch {
+      // not bech32m, fall through to base58
+    }
+    try {
+      return Pubkey.fromBase58(s);
+    } catch {
+      throw new Error(`Invalid pubkey ${s}`);
+    }
+  }
+
   toString(): string {
     return Buffer.from(this.bytes).toString('hex');
   }
 
+  /**
+   * Encodes the pubkey as base58.
+   * @returns The base58 string.
+   */
+  toBase58(): string {
+    return base58.encode(this.bytes);
+  }
+
+  /**
+   * Encodes the pubkey as bech32m.
+   * @param prefix The human-readable prefix.
+   * @returns The bech32m string.
+   */
+  toBech32m(prefix: string): string {
+    return bech32m.encode(prefix, bech32m.toWords(this.bytes));
+  }
+
+  /**
+   * Serializes the pubkey as hex in `JSON.stringify`.
+   * @returns The hex string.
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
   serialize(): number[] {
     return Array.from(this.bytes);
   }
 
+  /**
+   * Checks whether two pubkeys have the same bytes.
+   * @param other The pubkey to compare with.
+   * @returns True when the pubkeys are equal.
+   */
+  equals(other: Pubkey): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /**
+   * Orders pubkeys by their bytes, for use with `Array.prototype.sort`.
+   * @param other The pubkey to compare with.
+   * @returns A negative number, zero or a positive number.
+   */
+  compare(other: Pubkey): number {
+    for (let i = 0; i < 32; i++) {
+      if (this.bytes[i] !== other.bytes[i]) {
+        return this.bytes[i] - other.bytes[i];
+      }
+    }
+    return 0;
+  }
+
+  // Arch's built-in programs use a 32-character ASCII name as their id.
+  private static fromAscii(name: string): Pubkey {
+    return new Pubkey(new TextEncoder().encode(name));
+  }
+
   static systemProgram(): Pubkey {
     const bytes = new Uint8Array(32);
     bytes[31] = 1;
     return new Pubkey(bytes);
   }
+
+  /**
+   * Derives a program address from seeds the way the Arch runtime does:
+   * sha256(seeds || programId). Addresses that decode as a SEC1 secp256k1 point are
+   * rejected; a 32-byte hash is never read as an x-only key, so any hash is accepted.
+   * @param seeds Up to `MAX_SEEDS` seeds of at most `MAX_SEED_LENGTH` bytes each.
+   * @param programId The program that owns the address.
+   * @returns The program address.
+   */
+  static createProgramAddress(seeds: Array<Uint8Array | number[]>, programId: Pubkey): Pubkey {
+    if (seeds.length > MAX_SEEDS) {
+      throw new Error(`Too many seeds: ${seeds.length}, maximum is ${MAX_SEEDS}`);
+    }
+    const hash = sha256.create();
+    seeds.forEach((seed, index) => {
+      if (seed.length > MAX_SEED_LENGTH) {
+        throw new Error(`Seed ${index} is ${seed.length} bytes, maximum is ${MAX_SEED_LENGTH}`);
+      }
+      hash.update(Uint8Array.from(seed));
+    });
+    hash.update(programId.bytes);
+    const address = hash.digest();
+    if (isOnCurve(address)) {
+      throw new Error('Invalid seeds, address must fall off the curve');
+    }
+    return new Pubkey(address);
+  }
+
+  /**
+   * Finds a valid program address by appending a bump seed, starting at 255 and
+   * counting down to 1 until the address falls off the curve.
+   * @param seeds Up to `MAX_SEEDS - 1` seeds; the bump seed is appended.
+   * @param programId The program that owns the address.
+   * @returns The program address and its bump seed.
+   */
+  static findProgramAddress(seeds: Array<Uint8Array | number[]>, programId: Pubkey): [Pubkey, number] {
+    for (let bump = 255; bump > 0; bump--) {
+      try {
+        return [Pubkey.createProgramAddress([...seeds, [bump]], programId), bump];
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.startsWith('Invalid seeds')) {
+          throw error;
+        }
+      }
+    }
+    throw new Error('Unable to find a valid program address');
+  }
+}
+
+// Matches the Arch runtime: only compressed (33-byte) and uncompressed (65-byte)
+// encodings count as points.
+function isOnCurve(bytes: Uint8Array): boolean {
+  if (bytes.length !== 33 && bytes.length !== 65) {
+    return false;
+  }
+  try {
+    secp256k1.Point.fromHex(bytes);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 export type NodePubkey = number[];
 
 export enum Status {
   Processing,
-  Processed
+  Processed,
+  Failed
 }
 
 export type Signature = string;
@@ -65,9 +279,44 @@ export interface RuntimeTransaction {
 export interface ProcessedTransaction {
   runtime_transaction: RuntimeTransaction;
   status: Status;
+  failure?: string; // the node's reason when status is Failed
   bitcoin_txids: string[];
 }
 
+export interface ArchRpcClientOptions {
+  timeout?: number; // per-request timeout in milliseconds, no timeout by default
+  retry?: RetryOptions;
+  logger?: Logger; // defaults to a silent logger
+  middleware?: Middleware[];
+  autoBatch?: boolean | AutoBatchOptions; // off by default
+  subscriptions?: SubscriptionOptions; // WebSocket endpoint and polling for the on* subscriptions
+}
+
+export interface AutoBatchOptions {
+  window?: number; // milliseconds to collect concurrent calls, defaults to 0 (the next tick)
+  maxSize?: number; // flush early once this many calls are queued, defaults to 100
+}
+
+export interface RpcRequest {
+  method: string;
+  params: any;
+}
+
+export type RpcBatchResult<T = any> =
+  | { ok: true; result: T }
+  | { ok: false; error: ArchRpcError };
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  idempotent?: boolean; // allows the retry policy to resend write methods such as send_transaction
+}
+
+export interface ConfirmOptions {
+  timeout?: number; // milliseconds, defaults to 60 seconds
+  pollInterval?: number; // milliseconds, defaults to 1 second
+  signal?: AbortSignal;
+}
+
 export interface Block {
   transactions: string[];
   previous_block_hash: string;
@@ -76,6 +325,33 @@ export interface Block {
   merkle_root: string;
 }
 
+/**
+ * A streamed block's position, saved by indexers to resume `blocks()` later.
+ */
+export interface BlockCheckpoint {
+  height: number;
+  hash: string;
+}
+
+/**
+ * A block yielded by `blocks()`, with every transaction hydrated.
+ */
+export interface BlockWithTransactions {
+  height: number;
+  hash: string;
+  block: Block;
+  transactions: ProcessedTransaction[]; // in the order of `block.transactions`
+}
+
+export interface BlockStreamOptions {
+  from?: number; // first height, defaults to 0 or to the block after `checkpoint`
+  to?: number; // last height, inclusive; without it the stream ends at the tip unless `follow` is set
+  follow?: boolean; // wait for new blocks at the tip instead of ending
+  checkpoint?: BlockCheckpoint; // resume after this block, checking the next block builds on it
+  pollInterval?: number; // milliseconds between tip checks while following, defaults to 1000
+  signal?: AbortSignal;
+}
+
 export interface ArchNode {
   url: string;
   pubkey: NodePubkey;
@@ -103,3 +379,12 @@ export interface ProgramAccount {
   account: AccountInfoResult;
 }
 
+/**
+ * The outcome of running a transaction on the node without committing it.
+ */
+export interface SimulationResult {
+  logs: string[];
+  error?: string; // the reason the transaction would fail
+  accounts: ProgramAccount[]; // the accounts the transaction would change, with their new state
+}
+
@@ -0,0 +1,69 @@
+import type { AxiosStatic } from 'axios';
+
+/**
+ * Loads axios when it is installed. axios is an optional peer dependency: it is only
+ * required when a URL is used without a transport (falling back to fetch) or by
+ * `AxiosTransport` and `BitcoinCoreBackend`.
+ * @returns The axios module, or undefined when it cannot be loaded.
+ */
+export function loadAxios(): AxiosStatic | undefined {
+  try {
+    // module.require keeps axios out of bundlers' static analysis, so browser builds
+    // neither bundle it nor fail to resolve it.
+    const axios = module.require('axios');
+    return axios.default ?? axios;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms The delay in milliseconds.
+ * @param signal An optional signal that cancels the wait.
+ * @returns A promise that resolves after the delay, or rejects when the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Returns the error an aborted signal should surface.
+ * @param signal The aborted signal.
+ * @returns The signal's reason, or a generic abort error when it has none.
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('The operation was aborted');
+}
+
+/**
+ * Compares two byte sequences.
+ * @param a The first sequence.
+ * @param b The second sequence.
+ * @returns True when both have the same length and bytes.
+ */
+export function sameBytes(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
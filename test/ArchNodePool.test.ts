@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { ArchNodePool } from '../src/index';
+import { ArchJsonRpcError, ArchTransportError } from '../src/errors';
+import { RuntimeTransaction } from '../src/types';
+
+jest.mock('axios');
+
+type Handler = (method: string, params: any) => any;
+
+describe('ArchNodePool', () => {
+  let handlers: Record<string, Handler>;
+  let posts: Record<string, jest.Mock>;
+  const transaction: RuntimeTransaction = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+  const down = () => Promise.reject(Object.assign(new Error('connect ECONNREFUSED'), { isAxiosError: true }));
+
+  const node = (blockCount: number, ready = true): Handler => (method) => {
+    switch (method) {
+      case 'is_node_ready': return ready;
+      case 'get_block_count': return blockCount;
+      default: return `${method}@${blockCount}`;
+    }
+  };
+
+  beforeEach(() => {
+    handlers = {};
+    posts = {};
+    (axios.create as jest.Mock).mockClear();
+    (axios.create as jest.Mock).mockImplementation(({ baseURL }: { baseURL: string }) => {
+      const post = jest.fn(async (_url: string, payload: { method: string; params: any }) => {
+        const result = await handlers[baseURL](payload.method, payload.params);
+        return { data: { result } };
+      });
+      posts[baseURL] = post;
+      return { post };
+    });
+  });
+
+  const countCalls = (url: string, method: string) =>
+    posts[url].mock.calls.filter(([, payload]) => payload.method === method).length;
+
+  it('routes reads to the most-synced healthy node', async () => {
+    handlers = { a: node(10), b: node(12), c: node(15, false) };
+    const pool = new ArchNodePool(['a', 'b', 'c']);
+
+    await expect(pool.getBlockHash(1)).resolves.toBe('get_block_hash@12');
+    expect(pool.getNodeHealth().map(h => h.healthy)).toEqual([true, true, false]);
+    expect((axios.create as jest.Mock).mock.calls.map(([config]) => config.baseURL)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('accepts ArchNode entries', async () => {
+    handlers = { a: node(10) };
+    const pool = new ArchNodePool([{ url: 'a', pubkey: [], node_id: 1, is_ready: true }]);
+
+    await expect(pool.getBlockHash(1)).resolves.toBe('get_block_hash@10');
+  });
+
+  it('fails over to the next node on transport errors', async () => {
+    handlers = { a: node(20), b: node(20) };
+    const pool = new ArchNodePool(['a', 'b']);
+    await pool.refresh();
+    handlers.a = down;
+
+    await expect(pool.getBlockHash(1)).resolves.toBe('get_block_hash@20');
+    expect(pool.getNodeHealth()[0]).toMatchObject({ healthy: false, lastError: expect.any(ArchTransportError) });
+  });
+
+  it('does not fail over on JSON-RPC errors', async () => {
+    handlers = { a: node(20), b: node(10) };
+    const pool = new ArchNodePool(['a', 'b']);
+    await pool.refresh();
+    posts.a.mockResolvedValueOnce({ data: { error: { code: 404, message: 'not found' } } });
+
+    await expect(pool.getBlockHash(1)).rejects.toBeInstanceOf(ArchJsonRpcError);
+    expect(countCalls('b', 'get_block_hash')).toBe(0);
+  });
+
+  it('reprobes nodes once the health results are stale', async () => {
+    handlers = { a: node(5), b: node(10) };
+    const pool = new ArchNodePool(['a', 'b'], { healthCheckInterval: 0 });
+    await pool.getBlockHash(1);
+    handlers.a = node(30);
+
+    await expect(pool.getBlockHash(1)).resolves.toBe('get_block_hash@30');
+  });
+
+  it('sends transactions to the best node only, without failover', async () => {
+    handlers = { a: node(20), b: node(10) };
+    const pool = new ArchNodePool(['a', 'b']);
+    await pool.refresh();
+    handlers.a = down;
+
+    await expect(pool.sendTransaction(transaction)).rejects.toBeInstanceOf(ArchTransportError);
+    expect(countCalls('b', 'send_transaction')).toBe(0);
+  });
+
+  it('broadcasts transactions to every healthy node when enabled', async () => {
+    handlers = { a: node(20), b: node(10), c: node(10, false) };
+    const pool = new ArchNodePool(['a', 'b', 'c'], { broadcast: true });
+    await pool.refresh();
+    handlers.a = down;
+
+    await expect(pool.sendTransaction(transaction)).resolves.toBe('send_transaction@10');
+    expect(countCalls('c', 'send_transaction')).toBe(0);
+  });
+
+  it('adds middleware registered with use() to every node', async () => {
+    handlers = { a: node(20), b: node(10) };
+    const pool = new ArchNodePool(['a', 'b']);
+    const methods: string[] = [];
+    pool.use({ beforeSend: context => { methods.push(context.method); } });
+
+    await pool.getBlockHash(1);
+
+    expect(methods.sort()).toEqual(['get_block_count', 'get_block_count', 'get_block_hash', 'is_node_ready', 'is_node_ready']);
+  });
+});
@@ -1,7 +1,16 @@
 import { sha256 } from '@noble/hashes/sha256';
 import * as secp256k1 from '@noble/secp256k1';
 import { ArchRpcClient } from '../src/index';
-import { Pubkey, Instruction, Message, RuntimeTransaction } from '../src/types';
+import {
+  ArchDecodeError,
+  ArchHttpError,
+  ArchJsonRpcError,
+  ArchTimeoutError,
+  ArchTransactionFailedError,
+  ArchTransportError
+} from '../src/errors';
+import { Pubkey, Instruction, Message, RuntimeTransaction, Status } from '../src/types';
+import { ExternalSigner, KeypairSigner } from '../src/signer';
 import axios, { AxiosInstance } from 'axios';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 
@@ -83,6 +92,440 @@ jest.mock('axios');
     });
   });
 
+describe('Transaction confirmation', () => {
+  let client: ArchRpcClient;
+  let post: jest.Mock;
+
+  const processed = (status: Status) => ({
+    runtime_transaction: { version: 0, signatures: [], message: { signers: [], instructions: [] } },
+    status,
+    bitcoin_txids: ['ab'.repeat(32)],
+  });
+
+  beforeEach(() => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('polls through "not found" and processing states until processed', async () => {
+    post
+      .mockResolvedValueOnce({ data: { error: { code: 404, message: 'Transaction not found' } } })
+      .mockResolvedValueOnce({ data: { result: processed(Status.Processing) } })
+      .mockResolvedValueOnce({ data: { result: processed(Status.Processed) } });
+
+    const result = await client.confirmTransaction('txid', { pollInterval: 1 });
+
+    expect(result.status).toBe(Status.Processed);
+    expect(result.bitcoin_txids).toEqual(['ab'.repeat(32)]);
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows errors other than "not found"', async () => {
+    post.mockResolvedValueOnce({ data: { error: { code: -32603, message: 'Internal error' } } });
+
+    await expect(client.confirmTransaction('txid', { pollInterval: 1 })).rejects.toThrow('Internal error');
+  });
+
+  it('fails at once when the node does not implement the method', async () => {
+    post.mockResolvedValue({ data: { error: { code: -32601, message: 'Method not found' } } });
+
+    await expect(client.confirmTransaction('txid', { pollInterval: 1 })).rejects.toBeInstanceOf(ArchJsonRpcError);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out when the transaction is never processed', async () => {
+    post.mockResolvedValue({ data: { result: processed(Status.Processing) } });
+
+    const promise = client.confirmTransaction('txid', { timeout: 20, pollInterval: 5 });
+    await expect(promise).rejects.toBeInstanceOf(ArchTimeoutError);
+    await expect(promise).rejects.toThrow('Transaction txid was not processed within 20ms');
+  });
+
+  it('stops polling when the signal aborts', async () => {
+    post.mockResolvedValue({ data: { result: processed(Status.Processing) } });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(client.confirmTransaction('txid', { pollInterval: 5, signal: controller.signal }))
+      .rejects.toThrow('cancelled');
+  });
+
+  it('confirms a batch of transactions in order', async () => {
+    post.mockImplementation(async (_url: string, payload: { params: string }) => ({
+      data: { result: { ...processed(Status.Processed), bitcoin_txids: [payload.params] } },
+    }));
+
+    const results = await client.confirmTransactions(['a', 'b'], { pollInterval: 1 });
+
+    expect(results.map(r => r.bitcoin_txids[0])).toEqual(['a', 'b']);
+  });
+
+  it('stops polling the rest of a batch after the first failure', async () => {
+    post.mockImplementation(async (_url: string, payload: { params: string }) => ({
+      data: { result: processed(payload.params === 'a' ? Status.Failed : Status.Processing) },
+    }));
+
+    await expect(client.confirmTransactions(['a', 'b'], { pollInterval: 5 })).rejects.toBeInstanceOf(ArchTransactionFailedError);
+    const calls = post.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(post.mock.calls.length).toBe(calls);
+  });
+});
+
+describe('RPC errors', () => {
+  let client: ArchRpcClient;
+  let post: jest.Mock;
+
+  beforeEach(() => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('keeps the JSON-RPC code, data, method and params', async () => {
+    post.mockResolvedValueOnce({ data: { error: { code: -32602, message: 'Invalid params', data: { field: 'height' } } } });
+
+    const error = await client.getBlockHash(42).catch(e => e);
+
+    expect(error).toBeInstanceOf(ArchJsonRpcError);
+    expect(error).toMatchObject({ code: -32602, data: { field: 'height' }, method: 'get_block_hash', params: 42 });
+    expect(error.message).toBe('Invalid params');
+  });
+
+  it('wraps network failures as transport errors', async () => {
+    const cause = Object.assign(new Error('connect ECONNREFUSED'), { isAxiosError: true, code: 'ECONNREFUSED' });
+    post.mockRejectedValueOnce(cause);
+
+    const error = await client.getBlockCount().catch(e => e);
+
+    expect(error).toBeInstanceOf(ArchTransportError);
+    expect(error).toMatchObject({ method: 'get_block_count', cause });
+  });
+
+  it('wraps axios timeouts as timeout errors', async () => {
+    post.mockRejectedValueOnce(Object.assign(new Error('timeout of 10ms exceeded'), { isAxiosError: true, code: 'ECONNABORTED' }));
+
+    await expect(client.isNodeReady()).rejects.toBeInstanceOf(ArchTimeoutError);
+  });
+
+  it('distinguishes HTTP status errors from JSON-RPC errors in the body', async () => {
+    post.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 502'), {
+      isAxiosError: true,
+      response: { status: 502, data: 'Bad Gateway' },
+    }));
+    post.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 500'), {
+      isAxiosError: true,
+      response: { status: 500, data: { error: { code: -32000, message: 'Server error' } } },
+    }));
+
+    await expect(client.getBlockCount()).rejects.toMatchObject({ name: 'ArchHttpError', status: 502, body: 'Bad Gateway' });
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchJsonRpcError);
+  });
+
+  it('rejects responses that are not JSON-RPC envelopes', async () => {
+    post.mockResolvedValueOnce({ data: '<html>' });
+    post.mockResolvedValueOnce({ data: { jsonrpc: '2.0', id: '1' } });
+
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchDecodeError);
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchDecodeError);
+  });
+
+  it('exposes a common base class', async () => {
+    post.mockRejectedValueOnce(new Error('boom'));
+
+    const error = await client.getBlockCount().catch(e => e);
+
+    expect(error).toBeInstanceOf(ArchTransportError);
+    expect(error).not.toBeInstanceOf(ArchHttpError);
+    expect(error.name).toBe('ArchTransportError');
+  });
+});
+
+describe('Retry policy', () => {
+  let post: jest.Mock;
+  const networkError = () => Object.assign(new Error('socket hang up'), { isAxiosError: true, code: 'ECONNRESET' });
+  const transaction: RuntimeTransaction = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+
+  const createClient = (retry = {}) => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    return new ArchRpcClient('http://test-url.com', { timeout: 1_000, retry: { minDelay: 1, ...retry } });
+  };
+
+  it('passes the per-request timeout to axios', () => {
+    createClient();
+    expect(axios.create).toHaveBeenLastCalledWith(expect.objectContaining({ timeout: 1_000 }));
+  });
+
+  it('retries transient failures of read methods', async () => {
+    const client = createClient({ retries: 2 });
+    post
+      .mockRejectedValueOnce(networkError())
+      .mockRejectedValueOnce(Object.assign(new Error('503'), { isAxiosError: true, response: { status: 503, data: '' } }))
+      .mockResolvedValueOnce({ data: { result: 7 } });
+
+    await expect(client.getBlockCount()).resolves.toBe(7);
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const client = createClient({ retries: 1 });
+    post.mockRejectedValue(networkError());
+
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchTransportError);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry JSON-RPC errors', async () => {
+    const client = createClient({ retries: 3 });
+    post.mockResolvedValue({ data: { error: { code: -32602, message: 'Invalid params' } } });
+
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchJsonRpcError);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('only retries send_transaction when the call is idempotent', async () => {
+    const client = createClient({ retries: 2 });
+    post.mockRejectedValueOnce(networkError());
+
+    await expect(client.sendTransaction(transaction)).rejects.toBeInstanceOf(ArchTransportError);
+    expect(post).toHaveBeenCalledTimes(1);
+
+    post.mockRejectedValueOnce(networkError()).mockResolvedValueOnce({ data: { result: 'txid' } });
+    await expect(client.sendTransaction(transaction, { idempotent: true })).resolves.toBe('txid');
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it('uses a custom retry predicate', async () => {
+    const shouldRetry = jest.fn().mockReturnValue(false);
+    const client = createClient({ retries: 2, shouldRetry });
+    post.mockRejectedValue(networkError());
+
+    await expect(client.getBlockHash(1)).rejects.toBeInstanceOf(ArchTransportError);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(ArchTransportError), {
+      method: 'get_block_hash',
+      params: 1,
+      attempt: 0,
+      idempotent: false,
+    });
+  });
+
+  it('forwards the abort signal and stops retrying once aborted', async () => {
+    const client = createClient({ retries: 5, minDelay: 50 });
+    const controller = new AbortController();
+    post.mockRejectedValue(networkError());
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(client.getBlockCount({ signal: controller.signal })).rejects.toThrow('cancelled');
+    expect(post).toHaveBeenCalledWith('', expect.anything(), expect.objectContaining({ signal: controller.signal }));
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Middleware and logging', () => {
+  let post: jest.Mock;
+
+  beforeEach(() => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+  });
+
+  it('does not write to the console by default', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    post.mockResolvedValueOnce({ data: { result: 1 } });
+
+    await new ArchRpcClient('http://test-url.com').getBlockCount();
+
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('runs beforeSend and afterReceive hooks in order and sends their headers', async () => {
+    const calls: string[] = [];
+    post.mockResolvedValueOnce({ data: { result: 'hash' } });
+    const client = new ArchRpcClient('http://test-url.com')
+      .use({
+        beforeSend: (context) => {
+          calls.push(`before:${context.method}`);
+          context.headers.Authorization = 'Bearer token';
+        },
+        afterReceive: (_context, response) => { calls.push(`after:${JSON.stringify(response)}`); },
+      })
+      .use({ beforeSend: async () => { calls.push('second'); } });
+
+    await client.getBlockHash(3);
+
+    expect(calls).toEqual(['before:get_block_hash', 'second', 'after:{"result":"hash"}']);
+    expect(post).toHaveBeenCalledWith(
+      '',
+      expect.objectContaining({ method: 'get_block_hash', params: 3 }),
+      expect.objectContaining({ headers: { Authorization: 'Bearer token' } })
+    );
+  });
+
+  it('lets beforeSend rewrite the payload', async () => {
+    post.mockResolvedValueOnce({ data: { result: 'hash' } });
+    const client = new ArchRpcClient('http://test-url.com', {
+      middleware: [{ beforeSend: (context) => { context.payload.id = 'trace-1'; } }],
+    });
+
+    await client.getBlockHash(3);
+
+    expect(post.mock.calls[0][1].id).toBe('trace-1');
+  });
+
+  it('calls onError for every failed attempt', async () => {
+    const onError = jest.fn();
+    post.mockResolvedValue({ data: { error: { code: -32000, message: 'boom' } } });
+    const client = new ArchRpcClient('http://test-url.com', { middleware: [{ onError }] });
+
+    await expect(client.getBlockCount()).rejects.toBeInstanceOf(ArchJsonRpcError);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'get_block_count', attempt: 0 }),
+      expect.any(ArchJsonRpcError)
+    );
+  });
+
+  it('logs through the configured logger without the params', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    post.mockResolvedValueOnce({ data: { result: 'hash' } });
+
+    await new ArchRpcClient('http://test-url.com', { logger }).getBlockHash(99);
+
+    expect(logger.debug).toHaveBeenCalledWith('RPC request', expect.objectContaining({ method: 'get_block_hash' }));
+    logger.debug.mock.calls.forEach(([, context]) => expect(context).not.toHaveProperty('params'));
+  });
+});
+
+describe('JSON-RPC batches', () => {
+  let post: jest.Mock;
+
+  // Answers each request in reverse order to prove correlation by id.
+  const answerBatch = async (_url: string, payload: any) => {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    const responses = requests.map((request: any) => request.method === 'get_block'
+      ? { jsonrpc: '2.0', id: request.id, error: { code: 404, message: 'Block not found' } }
+      : { jsonrpc: '2.0', id: request.id, result: `${request.method}:${JSON.stringify(request.params)}` });
+    return { data: Array.isArray(payload) ? responses.reverse() : responses[0] };
+  };
+
+  beforeEach(() => {
+    post = jest.fn(answerBatch);
+    (axios.create as jest.Mock).mockReturnValue({ post });
+  });
+
+  it('uses unique ids for concurrent calls', async () => {
+    const client = new ArchRpcClient('http://test-url.com');
+    await Promise.all([client.getBlockHash(1), client.getBlockHash(2), client.getBlockHash(3)]);
+
+    const ids = post.mock.calls.map(([, payload]) => payload.id);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('sends heterogeneous calls in one request and correlates results by id', async () => {
+    const client = new ArchRpcClient('http://test-url.com');
+
+    const results = await client.batch([
+      { method: 'get_block_hash', params: 1 },
+      { method: 'get_block', params: 'abc' },
+      { method: 'get_account_address', params: [1, 2] },
+    ]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][1]).toHaveLength(3);
+    expect(results[0]).toEqual({ ok: true, result: 'get_block_hash:1' });
+    expect(results[1]).toMatchObject({ ok: false, error: expect.any(ArchJsonRpcError) });
+    expect(results[2]).toEqual({ ok: true, result: 'get_account_address:[1,2]' });
+  });
+
+  it('reports missing responses and transport failures per call', async () => {
+    const client = new ArchRpcClient('http://test-url.com');
+    post.mockResolvedValueOnce({ data: [] });
+    post.mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { isAxiosError: true }));
+
+    const [missing] = await client.batch([{ method: 'get_block_hash', params: 1 }]);
+    const failed = await client.batch([{ method: 'get_block_hash', params: 1 }, { method: 'get_block_count', params: [] }]);
+
+    expect(missing).toMatchObject({ ok: false, error: expect.any(ArchDecodeError) });
+    expect(failed.map(r => !r.ok && r.error.method)).toEqual(['get_block_hash', 'get_block_count']);
+    failed.forEach(r => expect(!r.ok && r.error).toBeInstanceOf(ArchTransportError));
+  });
+
+  it('automatically batches concurrent calls within a tick', async () => {
+    const client = new ArchRpcClient('http://test-url.com', { autoBatch: true });
+
+    const results = await Promise.allSettled([
+      client.getBlockHash(1),
+      client.getBlockHash(2),
+      client.getBlock('abc'),
+    ]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'get_block_hash:1' });
+    expect(results[1]).toEqual({ status: 'fulfilled', value: 'get_block_hash:2' });
+    expect(results[2]).toMatchObject({ status: 'rejected', reason: expect.any(ArchJsonRpcError) });
+  });
+
+  it('flushes automatic batches at the configured size and sends single calls unbatched', async () => {
+    const client = new ArchRpcClient('http://test-url.com', { autoBatch: { maxSize: 2 } });
+
+    await Promise.all([client.getBlockHash(1), client.getBlockHash(2), client.getBlockHash(3)]);
+
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post.mock.calls[0][1]).toHaveLength(2);
+    expect(Array.isArray(post.mock.calls[1][1])).toBe(false);
+  });
+});
+
+describe('callProgramWithAccounts', () => {
+  let client: ArchRpcClient;
+  let post: jest.Mock;
+  const alice = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  const bob = new KeypairSigner(hexToBytes('0101010101010101010101010101010101010101010101010101010101010101'));
+  const program = new Pubkey(new Uint8Array(32).fill(7));
+  const pda = new Pubkey(new Uint8Array(32).fill(8));
+  const accounts = [
+    { pubkey: alice.pubkey, is_signer: true, is_writable: true },
+    { pubkey: pda, is_signer: false, is_writable: true },
+    { pubkey: bob.pubkey, is_signer: true, is_writable: false },
+  ];
+
+  beforeEach(() => {
+    post = jest.fn().mockResolvedValue({ data: { result: 'txid' } });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('sends the accounts in order with one signature per signer', async () => {
+    await expect(client.callProgramWithAccounts([bob, alice], program.toString(), accounts, [1])).resolves.toBe('txid');
+
+    const sent = post.mock.calls[0][1].params;
+    expect(sent.message.signers).toEqual([Array.from(alice.pubkey.bytes), Array.from(bob.pubkey.bytes)]);
+    expect(sent.message.instructions[0].accounts.map((a: any) => a.pubkey[0])).toEqual([alice.pubkey.bytes[0], 8, bob.pubkey.bytes[0]]);
+    expect(sent.signatures).toHaveLength(2);
+  });
+
+  it('rejects missing signers before signing or sending', async () => {
+    const sign = jest.spyOn(alice, 'sign');
+
+    await expect(client.callProgramWithAccounts([alice], program, accounts, [1]))
+      .rejects.toThrow(`Missing signers for ${bob.pubkey.toString()}`);
+    expect(sign).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalled();
+    sign.mockRestore();
+  });
+
+  it('rejects signatures that do not match the signer pubkey', async () => {
+    const impostor = new ExternalSigner(bob.pubkey, hash => alice.sign(hash));
+
+    await expect(client.callProgramWithAccounts([alice, impostor], program, accounts, [1]))
+      .rejects.toThrow(`Invalid signatures for ${bob.pubkey.toString()}`);
+    expect(post).not.toHaveBeenCalled();
+  });
+});
+
 // describe('ArchRpcClient', () => {
 //   let client: ArchRpcClient;
 //   let mockAxiosInstance: jest.Mocked<AxiosInstance>;
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { hexToBytes } from '@noble/hashes/utils';
+import { ArchRpcClient } from '../src/index';
+import {
+  BitcoinBackend,
+  BitcoinCoreBackend,
+  BitcoinTimeoutError,
+  BitcoinTransaction,
+  waitForConfirmations
+} from '../src/bitcoin';
+import { ArchJsonRpcError } from '../src/errors';
+import { KeypairSigner } from '../src/signer';
+import { SystemInstructionType, SystemProgram } from '../src/systemProgram';
+import { Pubkey, Status } from '../src/types';
+
+jest.mock('axios');
+
+const FUNDING_TXID = 'ab'.repeat(32);
+const EMPTY_TRANSACTION = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+
+// A regtest stand-in: every getTransaction call mines one more block.
+class FakeBackend implements BitcoinBackend {
+  sent: Array<{ address: string; amount: number }> = [];
+  confirmations = 0;
+
+  async sendToAddress(address: string, amount: number): Promise<string> {
+    this.sent.push({ address, amount });
+    return FUNDING_TXID;
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction | null> {
+    if (this.sent.length === 0) {
+      return null;
+    }
+    return {
+      txid,
+      confirmations: this.confirmations++,
+      outputs: [{ address: 'bcrt1pchange', value: 5000 }, { address: this.sent[0].address, value: this.sent[0].amount }],
+    };
+  }
+}
+
+describe('createFundedAccount', () => {
+  const signer = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  let post: jest.Mock;
+  let client: ArchRpcClient;
+
+  beforeEach(() => {
+    post = jest.fn(async (_url: string, payload: any) => {
+      switch (payload.method) {
+        case 'get_account_address':
+          return { data: { result: 'bcrt1paccount' } };
+        case 'send_transaction':
+          return { data: { result: 'archtx' } };
+        case 'get_processed_transaction':
+          return { data: { result: { runtime_transaction: EMPTY_TRANSACTION, status: 'Processed', bitcoin_txids: [] } } };
+      }
+      throw new Error(`unexpected ${payload.method}`);
+    });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('funds the account address, waits for confirmations and creates the account', async () => {
+    const backend = new FakeBackend();
+
+    const result = await client.createFundedAccount(signer, backend, { amount: 3000, confirmations: 3, pollInterval: 1 });
+
+    expect(backend.sent).toEqual([{ address: 'bcrt1paccount', amount: 3000 }]);
+    expect(backend.confirmations).toBe(4);
+    expect(result).toEqual(expect.objectContaining({ bitcoinTxid: FUNDING_TXID, vout: 1, txid: 'archtx' }));
+    expect(result.processed.status).toBe(Status.Processed);
+
+    const sent = post.mock.calls.find(([, payload]) => payload.method === 'send_transaction')![1].params;
+    const [sentInstruction] = sent.message.instructions;
+    const instruction = SystemProgram.decode({
+      program_id: new Pubkey(Uint8Array.from(sentInstruction.program_id)),
+      accounts: [{ pubkey: new Pubkey(Uint8Array.from(sentInstruction.accounts[0].pubkey)), is_signer: true, is_writable: true }],
+      data: sentInstruction.data,
+    });
+    expect(instruction).toEqual({
+      type: SystemInstructionType.CreateAccount, account: signer.pubkey, txid: FUNDING_TXID, vout: 1,
+    });
+  });
+
+  it('fails when the funding transaction does not pay the account', async () => {
+    const backend = new FakeBackend();
+    backend.getTransaction = async txid => ({ txid, confirmations: 1, outputs: [{ address: 'bcrt1pother', value: 1 }] });
+
+    await expect(client.createFundedAccount(signer, backend, { amount: 3000 }))
+      .rejects.toThrow(`Bitcoin transaction ${FUNDING_TXID} has no output to bcrt1paccount`);
+    expect(post.mock.calls.map(([, payload]) => payload.method)).toEqual(['get_account_address']);
+  });
+
+  it('attaches the funding outpoint when creating the account fails', async () => {
+    const backend = new FakeBackend();
+    const send = post.getMockImplementation()!;
+    post.mockImplementation(async (url: string, payload: any) => payload.method === 'send_transaction'
+      ? { data: { error: { code: -32000, message: 'node busy' } } }
+      : send(url, payload));
+
+    const error = await client.createFundedAccount(signer, backend, { amount: 3000, pollInterval: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ArchJsonRpcError);
+    expect(error).toMatchObject({ bitcoinTxid: FUNDING_TXID, vout: 1 });
+    expect(backend.sent).toHaveLength(1);
+  });
+});
+
+describe('waitForConfirmations', () => {
+  it('times out when the transaction never confirms', async () => {
+    const backend: BitcoinBackend = {
+      sendToAddress: jest.fn(),
+      getTransaction: jest.fn().mockResolvedValue(null),
+    };
+
+    const error = await waitForConfirmations(backend, FUNDING_TXID, 1, { timeout: 20, pollInterval: 5 }).catch(e => e);
+    expect(error).toBeInstanceOf(BitcoinTimeoutError);
+    expect(error).toMatchObject({ txid: FUNDING_TXID, timeout: 20 });
+    expect(error.message).toContain('did not reach 1 confirmations within 20ms');
+  });
+});
+
+describe('BitcoinCoreBackend', () => {
+  let post: jest.Mock;
+
+  beforeEach(() => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+  });
+
+  it('uses the wallet endpoint and credentials', () => {
+    new BitcoinCoreBackend('http://localhost:18443/', { username: 'user', password: 'pass', wallet: 'test' });
+
+    expect(axios.create).toHaveBeenCalledWith(expect.objectContaining({
+      baseURL: 'http://localhost:18443/wallet/test',
+      auth: { username: 'user', password: 'pass' },
+    }));
+  });
+
+  it('sends amounts in BTC and converts outputs to satoshis', async () => {
+    const backend = new BitcoinCoreBackend('http://localhost:18443');
+    post.mockResolvedValueOnce({ status: 200, data: { result: FUNDING_TXID } });
+    post.mockResolvedValueOnce({
+      status: 200,
+      data: {
+        result: {
+          txid: FUNDING_TXID,
+          confirmations: 2,
+          decoded: { vout: [{ value: 0.00003, scriptPubKey: { address: 'bcrt1paccount' } }, { value: 1.1, scriptPubKey: {} }] },
+        },
+      },
+    });
+
+    await expect(backend.sendToAddress('bcrt1paccount', 3000)).resolves.toBe(FUNDING_TXID);
+    expect(post.mock.calls[0][1]).toEqual(expect.objectContaining({ method: 'sendtoaddress', params: ['bcrt1paccount', 0.00003] }));
+
+    await expect(backend.getTransaction(FUNDING_TXID)).resolves.toEqual({
+      txid: FUNDING_TXID,
+      confirmations: 2,
+      outputs: [{ address: 'bcrt1paccount', value: 3000 }, { address: undefined, value: 110000000 }],
+    });
+  });
+
+  it('maps unknown transactions to null and surfaces other RPC errors', async () => {
+    const backend = new BitcoinCoreBackend('http://localhost:18443');
+    post.mockResolvedValueOnce({ status: 500, data: { error: { code: -5, message: 'Invalid or non-wallet transaction id' } } });
+    post.mockResolvedValueOnce({ status: 500, data: { error: { code: -6, message: 'Insufficient funds' } } });
+
+    await expect(backend.getTransaction(FUNDING_TXID)).resolves.toBeNull();
+    await expect(backend.sendToAddress('bcrt1paccount', 3000)).rejects.toThrow('Bitcoin RPC sendtoaddress failed: Insufficient funds');
+  });
+});
@@ -0,0 +1,114 @@
+import axios from 'axios';
+import { ArchRpcClient } from '../src/index';
+import { ArchReorgError } from '../src/errors';
+import { BlockWithTransactions, Status } from '../src/types';
+
+jest.mock('axios');
+
+const EMPTY_TRANSACTION = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+
+interface FakeBlock {
+  hash: string;
+  previous: string;
+  transactions: string[];
+}
+
+describe('blocks', () => {
+  let chain: FakeBlock[];
+  let client: ArchRpcClient;
+  let post: jest.Mock;
+
+  const block = (hash: string, previous: string, transactions: string[] = []) => ({ hash, previous, transactions });
+
+  beforeEach(() => {
+    chain = [block('h0', '00'), block('h1', 'h0', ['t1a', 't1b']), block('h2', 'h1', ['t2'])];
+    post = jest.fn(async (_url: string, { method, params }: any) => {
+      switch (method) {
+        case 'get_block_count':
+          return { data: { result: chain.length } };
+        case 'get_block_hash':
+          return { data: { result: chain[params].hash } };
+        case 'get_block': {
+          const found = chain.find(b => b.hash === params)!;
+          return {
+            data: {
+              result: {
+                transactions: found.transactions,
+                previous_block_hash: found.previous,
+                transaction_count: found.transactions.length,
+                timestamp: 0,
+                merkle_root: '',
+              },
+            },
+          };
+        }
+        case 'get_processed_transaction':
+          return { data: { result: { runtime_transaction: EMPTY_TRANSACTION, status: Status.Processed, bitcoin_txids: [params] } } };
+      }
+      throw new Error(`unexpected ${method}`);
+    });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  async function collect(iterator: AsyncIterable<BlockWithTransactions>, limit = Infinity): Promise<BlockWithTransactions[]> {
+    const blocks: BlockWithTransactions[] = [];
+    for await (const item of iterator) {
+      blocks.push(item);
+      if (blocks.length >= limit) {
+        break;
+      }
+    }
+    return blocks;
+  }
+
+  it('streams to the tip with hydrated transactions', async () => {
+    const blocks = await collect(client.blocks());
+
+    expect(blocks.map(b => [b.height, b.hash])).toEqual([[0, 'h0'], [1, 'h1'], [2, 'h2']]);
+    expect(blocks[1].transactions.map(t => t.bitcoin_txids[0])).toEqual(['t1a', 't1b']);
+    expect(blocks[1].block.previous_block_hash).toBe('h0');
+  });
+
+  it('honours from and to', async () => {
+    const blocks = await collect(client.blocks({ from: 1, to: 1 }));
+    expect(blocks.map(b => b.hash)).toEqual(['h1']);
+  });
+
+  it('resumes after a checkpoint', async () => {
+    const blocks = await collect(client.blocks({ checkpoint: { height: 1, hash: 'h1' } }));
+    expect(blocks.map(b => b.hash)).toEqual(['h2']);
+
+    await expect(collect(client.blocks({ checkpoint: { height: 1, hash: 'h1' }, from: 0 })))
+      .rejects.toThrow('from (0) must be the height after the checkpoint (1)');
+  });
+
+  it('detects a checkpoint that is no longer on the chain', async () => {
+    const error = await collect(client.blocks({ checkpoint: { height: 1, hash: 'stale' } })).catch(e => e);
+
+    expect(error).toBeInstanceOf(ArchReorgError);
+    expect(error).toEqual(expect.objectContaining({ height: 2, expectedPreviousHash: 'stale', actualPreviousHash: 'h1' }));
+  });
+
+  it('follows the tip and detects reorgs between blocks', async () => {
+    const iterator = client.blocks({ from: 2, follow: true, pollInterval: 5 })[Symbol.asyncIterator]();
+    expect((await iterator.next()).value!.hash).toBe('h2');
+
+    const next = iterator.next();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    chain.push(block('h3', 'h2'));
+    expect((await next).value!.hash).toBe('h3');
+
+    chain.splice(3, 1, block('h3b', 'h2b'), block('h4', 'h3b'));
+    await expect(iterator.next()).rejects.toBeInstanceOf(ArchReorgError);
+  });
+
+  it('stops following when the signal aborts', async () => {
+    const controller = new AbortController();
+    const iterator = client.blocks({ from: 3, follow: true, pollInterval: 1000, signal: controller.signal });
+
+    const pending = collect(iterator);
+    setTimeout(() => controller.abort(new Error('stop')), 10);
+    await expect(pending).rejects.toThrow('stop');
+  });
+});
@@ -0,0 +1,91 @@
+import { decode, decodeAccountData, decodeProgramAccounts, encode, encodeInstructionData } from '../src/borsh';
+import { AccountInfoResult, Pubkey } from '../src/types';
+
+describe('Borsh codec', () => {
+  const owner = new Pubkey(new Uint8Array(32).fill(3));
+
+  it('encodes integers little-endian, including 64- and 128-bit and signed values', () => {
+    expect(Array.from(encode('u16', 0x0102))).toEqual([2, 1]);
+    expect(Array.from(encode('i32', -2))).toEqual([254, 255, 255, 255]);
+    expect(Array.from(encode('u64', 1))).toEqual([1, 0, 0, 0, 0, 0, 0, 0]);
+    expect(Array.from(encode('i64', BigInt(-1)))).toEqual(new Array(8).fill(255));
+    expect(encode('u128', BigInt(2) ** BigInt(127))[15]).toBe(0x80);
+
+    expect(decode('i32', [254, 255, 255, 255])).toBe(-2);
+    expect(decode('u64', new Array(8).fill(255))).toBe(BigInt('18446744073709551615'));
+    expect(decode('i128', new Array(16).fill(255))).toBe(BigInt(-1));
+  });
+
+  it('rejects out-of-range integers', () => {
+    expect(() => encode('u8', 256)).toThrow('Value 256 out of range for u8 at $');
+    expect(() => encode('i8', -129)).toThrow('out of range for i8');
+    expect(() => encode('u64', -1)).toThrow('out of range for u64');
+    expect(() => encode('u64', 2 ** 60)).toThrow('Expected a safe integer');
+  });
+
+  it('matches the Borsh layout of a struct with strings, vectors, options and pubkeys', () => {
+    const schema = {
+      struct: {
+        flag: 'bool',
+        name: 'string',
+        values: { vec: 'u16' },
+        fixed: { array: 'u8', len: 2 },
+        memo: { option: 'string' },
+        owner: 'pubkey',
+      },
+    } as const;
+
+    const bytes = encode(schema, { flag: true, name: 'hi', values: [1, 2], fixed: [9, 8], memo: null, owner });
+
+    expect(Array.from(bytes)).toEqual([
+      1,
+      2, 0, 0, 0, 104, 105,
+      2, 0, 0, 0, 1, 0, 2, 0,
+      9, 8,
+      0,
+      ...owner.bytes,
+    ]);
+    expect(decode(schema, bytes)).toEqual({ flag: true, name: 'hi', values: [1, 2], fixed: [9, 8], memo: null, owner });
+  });
+
+  it('encodes enums as a variant index followed by the payload', () => {
+    const schema = { enum: { Initialize: null, Deposit: { struct: { amount: 'u64' } }, Withdraw: 'u32' } } as const;
+
+    expect(encodeInstructionData(schema, { Initialize: null })).toEqual([0]);
+    expect(encodeInstructionData(schema, { Deposit: { amount: 5 } })).toEqual([1, 5, 0, 0, 0, 0, 0, 0, 0]);
+    expect(decode(schema, [2, 7, 0, 0, 0])).toEqual({ Withdraw: 7 });
+    expect(decode(schema, [1, 5, 0, 0, 0, 0, 0, 0, 0])).toEqual({ Deposit: { amount: BigInt(5) } });
+
+    expect(() => encode(schema, { Unknown: null } as any)).toThrow('Expected one of Initialize, Deposit, Withdraw');
+    expect(() => decode(schema, [3])).toThrow('Invalid enum variant 3 at $');
+  });
+
+  it('reports the path of invalid and truncated values', () => {
+    const schema = { struct: { inner: { struct: { items: { vec: 'bool' } } } } } as const;
+
+    expect(() => encode(schema, { inner: { items: [true, 'no' as any] } })).toThrow('Expected boolean at $.inner.items[1]');
+    expect(() => decode(schema, [2, 0, 0, 0, 1])).toThrow('Unexpected end of data at $.inner.items[1]');
+    expect(() => decode(schema, [1, 0, 0, 0, 2])).toThrow('Invalid boolean 2 at $.inner.items[0]');
+  });
+
+  it('rejects trailing bytes unless allowed', () => {
+    expect(() => decode('u8', [1, 0])).toThrow('Unexpected 1 trailing bytes');
+    expect(decode('u8', [1, 0], { allowTrailingBytes: true })).toBe(1);
+  });
+
+  it('decodes account data from readAccountInfo and getProgramAccounts results', () => {
+    const schema = { struct: { count: 'u32', authority: 'pubkey' } } as const;
+    const account: AccountInfoResult = {
+      owner,
+      data: [...encode(schema, { count: 4, authority: owner }), 0, 0, 0],
+      utxo: 'utxo',
+      is_executable: false,
+    };
+
+    expect(decodeAccountData(schema, account)).toEqual({ count: 4, authority: owner });
+
+    const [decoded] = decodeProgramAccounts(schema, [{ pubkey: owner, account }]);
+    expect(decoded.data.count).toBe(4);
+    expect(decoded.account).toBe(account);
+  });
+});
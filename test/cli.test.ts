@@ -0,0 +1,160 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../src/cli';
+import { MockArchNode } from '../src/mockNode';
+import { Keypair, saveKeypair } from '../src/keypair';
+import { Idl } from '../src/program';
+import { Pubkey } from '../src/types';
+
+describe('arch-ts', () => {
+  const payer = Keypair.fromSeed(new Uint8Array(32).fill(3));
+  const programId = Keypair.fromSeed(new Uint8Array(32).fill(4)).pubkey;
+  const utxo = 'ef'.repeat(32);
+  let node: MockArchNode;
+  let url: string;
+  let dir: string;
+  let keyfile: string;
+
+  beforeEach(async () => {
+    node = new MockArchNode();
+    url = await node.listen();
+    dir = await mkdtemp(join(tmpdir(), 'arch-ts-'));
+    keyfile = join(dir, 'payer.json');
+    await saveKeypair(keyfile, payer);
+  });
+
+  afterEach(async () => {
+    await node.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function run(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(['--url', url, ...argv], {
+      stdout: text => { stdout += text; },
+      stderr: text => { stderr += text; },
+    }, {});
+    return { code, stdout, stderr };
+  }
+
+  async function json(...argv: string[]): Promise<any> {
+    const { code, stdout, stderr } = await run('-o', 'json', ...argv);
+    expect({ code, stderr }).toEqual({ code: 0, stderr: '' });
+    return JSON.parse(stdout);
+  }
+
+  it('generates keyfiles', async () => {
+    const out = join(dir, 'new.json');
+    const result = await json('keygen', '--out', out, '--mnemonic');
+
+    const saved = Keypair.fromKeyfile(await readFile(out, 'utf8'));
+    expect(result.pubkey).toBe(saved.pubkey.toString());
+    expect(result.address).toBe(saved.address('regtest'));
+    expect(result.mnemonic.split(' ')).toHaveLength(12);
+  });
+
+  it('refuses to overwrite a keyfile or use an unknown network', async () => {
+    const before = await readFile(keyfile, 'utf8');
+    const exists = await run('keygen', '--out', keyfile);
+    expect(exists).toEqual({ code: 1, stdout: '', stderr: `error: ${keyfile} already exists; pass --force to replace it\n` });
+    expect(await readFile(keyfile, 'utf8')).toBe(before);
+
+    const replaced = await json('keygen', '--out', keyfile, '--force');
+    expect(Keypair.fromKeyfile(await readFile(keyfile, 'utf8')).pubkey.toString()).toBe(replaced.pubkey);
+
+    const out = join(dir, 'other.json');
+    const unknown = await run('keygen', '--out', out, '-n', 'foo');
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('Unknown network foo');
+    await expect(readFile(out)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('creates, shows and hands over an account', async () => {
+    expect(await json('-k', keyfile, 'account', 'create', `${utxo}:2`, '--wait'))
+      .toEqual(expect.objectContaining({ status: 'Processed' }));
+
+    const shown = await json('account', 'show', payer.pubkey.toBase58());
+    expect(shown).toEqual({
+      pubkey: payer.pubkey.toString(),
+      owner: Pubkey.SYSTEM_PROGRAM.toString(),
+      is_executable: false,
+      utxo: `${utxo}:2`,
+      data_length: 0,
+      data: '',
+    });
+
+    await json('-k', keyfile, 'transfer-ownership', programId.toString());
+    expect(node.getAccount(payer.pubkey)!.owner.equals(programId)).toBe(true);
+  });
+
+  it('calls programs with hex or JSON data and explicit accounts', async () => {
+    const other = new Pubkey(new Uint8Array(32).fill(7));
+    const calls: Array<{ data: number[]; flags: boolean[][] }> = [];
+    node.setAccount(payer.pubkey);
+    node.registerProgram(programId, ({ data, accounts }) => {
+      calls.push({ data, flags: accounts.map(account => [account.is_signer, account.is_writable]) });
+    });
+
+    await json('-k', keyfile, 'call', programId.toString(), '--data', '0x0102');
+    await json('-k', keyfile, 'call', programId.toString(), '--data', '[3, 4]',
+      '--account', `${payer.pubkey.toString()}:s:w`, '--account', other.toString());
+
+    expect(calls).toEqual([
+      { data: [1, 2], flags: [[true, true]] },
+      { data: [3, 4], flags: [[true, true], [false, false]] },
+    ]);
+    expect((await run('-k', keyfile, 'call', programId.toString(), '--data', 'xyz')).code).toBe(2);
+  });
+
+  it('encodes and decodes with an IDL', async () => {
+    const idl: Idl = {
+      name: 'counter',
+      instructions: [{
+        name: 'add',
+        accounts: [{ name: 'counter', is_signer: true, is_writable: true }],
+        args: [{ name: 'amount', type: 'u32' }],
+      }],
+      accounts: [{ name: 'Counter', type: { kind: 'struct', fields: [{ name: 'total', type: 'u64' }] } }],
+    };
+    const idlFile = join(dir, 'idl.json');
+    await writeFile(idlFile, JSON.stringify(idl));
+    node.setAccount(payer.pubkey, { owner: programId, data: [5, 0, 0, 0, 0, 0, 0, 0] });
+    node.registerProgram(programId, ({ accounts, data }) => {
+      accounts[0].data[0] += data[1];
+    });
+
+    await json('-k', keyfile, 'call', programId.toString(), '--idl', idlFile, '--instruction', 'add',
+      '--data', '{"amount": 3}', '--account', payer.pubkey.toString());
+
+    const shown = await json('account', 'show', payer.pubkey.toString(), '--idl', idlFile, '--type', 'Counter');
+    expect(shown.decoded).toEqual({ total: '8' });
+  });
+
+  it('shows blocks, transaction status and filtered program accounts', async () => {
+    node.setAccount(new Pubkey(new Uint8Array(32).fill(1)), { owner: programId, data: [1, 2, 3] });
+    node.setAccount(new Pubkey(new Uint8Array(32).fill(2)), { owner: programId, data: [1, 9] });
+    const { txid } = await json('-k', keyfile, 'account', 'create', `${utxo}:0`);
+
+    const block = await json('block', 'get', '1');
+    expect(block).toEqual(expect.objectContaining({ height: 1, transactions: [txid], transaction_count: 1 }));
+    expect((await json('block', 'get', block.hash)).transactions).toEqual([txid]);
+
+    const status = await run('tx', 'status', txid);
+    expect(status.stdout).toMatch(/^status\s+Processed$/m);
+
+    const accounts = await json('program', 'accounts', programId.toString(), '--memcmp', '0:01', '--data-size', '3');
+    expect(accounts.map((account: any) => account.data)).toEqual(['010203']);
+    const table = await run('program', 'accounts', programId.toString());
+    expect(table.stdout.split('\n')[0]).toMatch(/^pubkey\s+is_executable\s+data_length\s+data$/);
+  });
+
+  it('reports usage and RPC errors with exit codes', async () => {
+    expect((await run('frobnicate')).code).toBe(2);
+    expect((await run('account', 'create', `${utxo}:0`)).stderr).toContain('account create needs --keypair <file>');
+
+    const missing = await run('account', 'show', payer.pubkey.toString());
+    expect(missing).toEqual({ code: 1, stdout: '', stderr: `error: Account ${payer.pubkey.toString()} not found\n` });
+  });
+});
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { ArchRpcClient } from '../src/index';
+import {
+  RESPONSE_DECODERS,
+  ResponseSchemaError,
+  decodeAccountInfo,
+  decodeProcessedTransaction,
+  decodePubkey,
+  decodeStatus
+} from '../src/decoders';
+import { ArchDecodeError, ArchTransactionFailedError } from '../src/errors';
+import { Pubkey, Status } from '../src/types';
+
+jest.mock('axios');
+
+const OWNER = Array.from({ length: 32 }, (_, i) => i);
+const SIGNATURE = Array(64).fill(0xab);
+const RAW_TRANSACTION = {
+  version: 0,
+  signatures: [SIGNATURE],
+  message: {
+    signers: [OWNER],
+    instructions: [{
+      program_id: Array(32).fill(1),
+      accounts: [{ pubkey: OWNER, is_signer: true, is_writable: true }],
+      data: [1, 2, 3],
+    }],
+  },
+};
+
+describe('response decoders', () => {
+  it('converts byte arrays and hex strings into pubkeys', () => {
+    const pubkey = decodePubkey(OWNER);
+    expect(pubkey).toBeInstanceOf(Pubkey);
+    expect(decodePubkey(pubkey.toString()).equals(pubkey)).toBe(true);
+    expect(() => decodePubkey([1, 2, 3], '$.owner')).toThrow('Expected 32-byte pubkey at $.owner, got array of length 3');
+    expect(() => decodePubkey([...OWNER.slice(1), 256])).toThrow('Expected byte array');
+  });
+
+  it('maps every status encoding onto the enum', () => {
+    expect(decodeStatus(0)).toEqual({ status: Status.Processing });
+    expect(decodeStatus('Processed')).toEqual({ status: Status.Processed });
+    expect(decodeStatus({ Failed: 'out of compute' })).toEqual({ status: Status.Failed, failure: 'out of compute' });
+    expect(() => decodeStatus('Done')).toThrow(ResponseSchemaError);
+    expect(() => decodeStatus(7)).toThrow(ResponseSchemaError);
+  });
+
+  it('normalizes account info and keeps unknown fields', () => {
+    const account = decodeAccountInfo({ owner: OWNER, data: [9], utxo: 'tx:0', is_executable: false, lamports: 5 });
+
+    expect(account.owner.toString()).toBe(Buffer.from(OWNER).toString('hex'));
+    expect(account).toEqual(expect.objectContaining({ data: [9], utxo: 'tx:0', is_executable: false, lamports: 5 }));
+    expect(() => decodeAccountInfo({ owner: OWNER, data: [9], utxo: 'tx:0' }))
+      .toThrow('Expected boolean at $.is_executable, got undefined');
+  });
+
+  it('decodes processed transactions down to their instructions', () => {
+    const processed = decodeProcessedTransaction({
+      runtime_transaction: RAW_TRANSACTION,
+      status: { Failed: 'boom' },
+      bitcoin_txids: ['ff'],
+    });
+
+    expect(processed.status).toBe(Status.Failed);
+    expect(processed.failure).toBe('boom');
+    expect(processed.runtime_transaction.signatures).toEqual(['ab'.repeat(64)]);
+    expect(processed.runtime_transaction.message.signers[0]).toBeInstanceOf(Pubkey);
+    expect(processed.runtime_transaction.message.instructions[0].accounts[0].pubkey).toBeInstanceOf(Pubkey);
+    expect(() => decodeProcessedTransaction({ ...processed, runtime_transaction: { ...RAW_TRANSACTION, signatures: [[1]] } }))
+      .toThrow('Expected 64-byte signature at $.runtime_transaction.signatures[0]');
+  });
+
+  it('has a decoder for every method the client wraps', () => {
+    expect(Object.keys(RESPONSE_DECODERS).sort()).toEqual([
+      'get_account_address', 'get_block', 'get_block_count', 'get_block_hash', 'get_processed_transaction',
+      'get_program_accounts', 'is_node_ready', 'read_account_info', 'send_transaction', 'send_transactions',
+      'simulate_transaction', 'start_dkg',
+    ]);
+  });
+});
+
+describe('client response decoding', () => {
+  let post: jest.Mock;
+  let client: ArchRpcClient;
+
+  beforeEach(() => {
+    post = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('returns Pubkey instances from getProgramAccounts', async () => {
+    post.mockResolvedValue({
+      data: { result: [{ pubkey: OWNER, account: { owner: OWNER, data: [], utxo: 'tx:0', is_executable: true } }] },
+    });
+
+    const [{ pubkey, account }] = await client.getProgramAccounts(new Pubkey(new Uint8Array(OWNER)));
+    expect(pubkey.toString()).toBe(account.owner.toString());
+  });
+
+  it('rejects schema drift with ArchDecodeError', async () => {
+    post.mockResolvedValue({ data: { result: { owner: 'not a key', data: [], utxo: 'tx:0', is_executable: true } } });
+
+    const error = await client.readAccountInfo(new Pubkey(new Uint8Array(32))).catch(e => e);
+    expect(error).toBeInstanceOf(ArchDecodeError);
+    expect(error.method).toBe('read_account_info');
+    expect(error.message).toBe('Unexpected read_account_info response: Expected 32-byte pubkey at $.owner, got "not a key"');
+    expect(error.response).toEqual(expect.objectContaining({ owner: 'not a key' }));
+  });
+
+  it('passes results of unwrapped methods through unchanged', async () => {
+    post.mockResolvedValue({ data: { result: { anything: [1] } } });
+    await expect(client.request('get_version', [])).resolves.toEqual({ anything: [1] });
+  });
+
+  it('rejects confirmTransaction when the transaction failed', async () => {
+    post.mockResolvedValue({
+      data: { result: { runtime_transaction: RAW_TRANSACTION, status: { Failed: 'boom' }, bitcoin_txids: [] } },
+    });
+
+    const error = await client.confirmTransaction('txid', { pollInterval: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(ArchTransactionFailedError);
+    expect(error.message).toBe('Transaction txid failed: boom');
+    expect(error.transaction.status).toBe(Status.Failed);
+  });
+});
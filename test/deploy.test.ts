@@ -0,0 +1,149 @@
+import axios from 'axios';
+import { hexToBytes } from '@noble/hashes/utils';
+import { ArchRpcClient } from '../src/index';
+import { ArchJsonRpcError, ArchTransportError } from '../src/errors';
+import { DeployProgress, maxWriteChunkSize } from '../src/deploy';
+import { MAX_TRANSACTION_SIZE, encodeTransaction } from '../src/message';
+import { KeypairSigner } from '../src/signer';
+import { SystemInstructionType, SystemProgram } from '../src/systemProgram';
+import { TransactionBuilder } from '../src/transactionBuilder';
+import { Pubkey } from '../src/types';
+
+jest.mock('axios');
+
+const EMPTY_TRANSACTION = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+
+describe('deployProgram', () => {
+  const signer = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  const elf = Uint8Array.from({ length: 10 }, (_, i) => i + 1);
+  let account: { data: number[]; is_executable: boolean } | undefined;
+  let sent: SystemInstructionType[];
+  let failNextSend: number;
+  let rejectNextSend: boolean;
+  let corruptWrites: boolean;
+  let client: ArchRpcClient;
+
+  beforeEach(() => {
+    account = undefined;
+    sent = [];
+    failNextSend = 0;
+    rejectNextSend = false;
+    corruptWrites = false;
+    const post = jest.fn(async (_url: string, { method, params }: any) => {
+      switch (method) {
+        case 'read_account_info':
+          if (!account) {
+            return { data: { error: { code: 404, message: 'account not found' } } };
+          }
+          return { data: { result: { owner: Array(32).fill(0), utxo: 'tx:0', ...account } } };
+        case 'send_transaction': {
+          if (failNextSend > 0) {
+            failNextSend--;
+            throw new Error('socket hang up');
+          }
+          if (rejectNextSend) {
+            rejectNextSend = false;
+            return { data: { error: { code: -32000, message: 'Invalid signature' } } };
+          }
+          const [raw] = params.message.instructions;
+          const instruction = SystemProgram.decode({
+            program_id: new Pubkey(Uint8Array.from(raw.program_id)),
+            accounts: [{ pubkey: signer.pubkey, is_signer: true, is_writable: true }],
+            data: raw.data,
+          });
+          sent.push(instruction.type);
+          if (instruction.type === SystemInstructionType.CreateAccount) {
+            account = { data: [], is_executable: false };
+          } else if (instruction.type === SystemInstructionType.WriteBytes) {
+            account!.data.splice(instruction.offset, instruction.data.length, ...instruction.data.map(b => corruptWrites ? 0 : b));
+          } else if (instruction.type === SystemInstructionType.MakeExecutable) {
+            account!.is_executable = true;
+          }
+          return { data: { result: `tx${sent.length}` } };
+        }
+        case 'get_processed_transaction':
+          return { data: { result: { runtime_transaction: EMPTY_TRANSACTION, status: 'Processed', bitcoin_txids: [] } } };
+      }
+      throw new Error(`unexpected ${method}`);
+    });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+    client = new ArchRpcClient('http://test-url.com');
+  });
+
+  it('creates the account, writes every chunk, marks it executable and verifies it', async () => {
+    const progress: DeployProgress[] = [];
+
+    const result = await client.deployProgram(signer, elf, {
+      utxo: { txid: 'ab'.repeat(32), vout: 0 }, chunkSize: 4, pollInterval: 1, onProgress: p => progress.push(p),
+    });
+
+    expect(sent).toEqual([
+      SystemInstructionType.CreateAccount,
+      SystemInstructionType.WriteBytes, SystemInstructionType.WriteBytes, SystemInstructionType.WriteBytes,
+      SystemInstructionType.MakeExecutable,
+    ]);
+    expect(account).toEqual({ data: Array.from(elf), is_executable: true });
+    expect(result).toEqual({ programId: signer.pubkey, txids: ['tx1', 'tx2', 'tx3', 'tx4', 'tx5'], skippedChunks: 0 });
+    expect(progress.map(p => [p.offset, p.length, p.written])).toEqual([[0, 4, 4], [4, 4, 8], [8, 2, 10]]);
+  });
+
+  it('resumes by skipping chunks that are already written', async () => {
+    account = { data: Array.from(elf.slice(0, 8)), is_executable: false };
+
+    const result = await client.deployProgram(signer, elf, { chunkSize: 4, pollInterval: 1 });
+
+    expect(sent).toEqual([SystemInstructionType.WriteBytes, SystemInstructionType.MakeExecutable]);
+    expect(result.skippedChunks).toBe(2);
+    expect(account.data).toEqual(Array.from(elf));
+  });
+
+  it('retries a failed chunk and reports exhausted retries', async () => {
+    account = { data: [], is_executable: false };
+    failNextSend = 1;
+    await client.deployProgram(signer, elf, { pollInterval: 1 });
+    expect(account.is_executable).toBe(true);
+
+    account = { data: [], is_executable: false };
+    failNextSend = 2;
+    const error = await client.deployProgram(signer, elf, { retries: 1, pollInterval: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(ArchTransportError);
+    expect(error.message).toBe('send_transaction failed: socket hang up');
+  });
+
+  it('waits between retries and does not retry rejections from the node', async () => {
+    account = { data: [], is_executable: false };
+    failNextSend = 1;
+    const started = Date.now();
+    await client.deployProgram(signer, elf, { pollInterval: 1, retryDelay: { minDelay: 50, jitter: false } });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+
+    account = { data: [], is_executable: false };
+    sent = [];
+    rejectNextSend = true;
+    await expect(client.deployProgram(signer, elf, { pollInterval: 1 })).rejects.toBeInstanceOf(ArchJsonRpcError);
+    expect(sent).toEqual([]);
+  });
+
+  it('refuses to deploy without a way to create the account', async () => {
+    await expect(client.deployProgram(signer, elf))
+      .rejects.toThrow(`Program account ${signer.pubkey.toString()} does not exist; pass utxo or funding to create it`);
+  });
+
+  it('fails when the on-chain data does not match the binary', async () => {
+    account = { data: [], is_executable: false };
+    corruptWrites = true;
+
+    await expect(client.deployProgram(signer, elf, { pollInterval: 1 }))
+      .rejects.toThrow('Deployed program data does not match the binary (10 of 10 bytes)');
+  });
+
+  it('sizes chunks to fill a transaction exactly', async () => {
+    const chunkSize = maxWriteChunkSize(signer.pubkey);
+    const transaction = await new TransactionBuilder()
+      .add(SystemProgram.writeBytes(signer.pubkey, 0, new Uint8Array(chunkSize)))
+      .sign([signer]);
+
+    expect(encodeTransaction(transaction).length).toBe(MAX_TRANSACTION_SIZE);
+    await expect(client.deployProgram(signer, elf, { chunkSize: chunkSize + 1 })).rejects.toThrow('chunkSize must be between');
+  });
+});
@@ -0,0 +1,104 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { bytesToHex } from '@noble/hashes/utils';
+import { chmodSync, mkdtempSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair, loadKeypair, saveKeypair } from '../src/keypair';
+import { getTaprootAddress, taprootOutputKey } from '../src/address';
+import { Pubkey } from '../src/types';
+
+// BIP86 test vector: first receiving address of the first account
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const INTERNAL_KEY = 'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115';
+const OUTPUT_KEY = 'a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c';
+const ADDRESS = 'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr';
+
+describe('Keypair', () => {
+  const secretHex = '04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df';
+
+  it('derives the x-only pubkey from a secret key', () => {
+    const keypair = Keypair.fromHex(`0x${secretHex}`);
+    expect(keypair.pubkey.toString()).toBe(bytesToHex(secp256k1.schnorr.getPublicKey(secretHex)));
+    expect(keypair.toHex()).toBe(secretHex);
+    expect(Keypair.fromSecretKey(keypair.secretKey).pubkey.toString()).toBe(keypair.pubkey.toString());
+  });
+
+  it('rejects invalid secret keys', () => {
+    expect(() => Keypair.fromHex('abcd')).toThrow('Secret key must be 32 bytes');
+    expect(() => Keypair.fromSecretKey(new Uint8Array(32))).toThrow('Invalid private key');
+  });
+
+  it('generates distinct keypairs that sign', async () => {
+    const keypair = Keypair.generate();
+    expect(Keypair.generate().toHex()).not.toBe(keypair.toHex());
+
+    const hash = new Uint8Array(32).fill(1);
+    const signature = await keypair.sign(hash);
+    expect(await secp256k1.schnorr.verify(signature, hash, keypair.pubkey.bytes)).toBe(true);
+  });
+
+  it('derives BIP86 keys from a mnemonic', () => {
+    const keypair = Keypair.fromMnemonic(`  ${MNEMONIC.replace(/ /g, '\n')} `);
+    expect(keypair.pubkey.toString()).toBe(INTERNAL_KEY);
+    expect(keypair.address()).toBe(ADDRESS);
+
+    const other = Keypair.fromMnemonic(MNEMONIC, { path: "m/86'/0'/0'/0/1" });
+    expect(other.pubkey.toString()).not.toBe(INTERNAL_KEY);
+    expect(() => Keypair.fromMnemonic('abandon abandon')).toThrow('Invalid mnemonic');
+    expect(Keypair.generateMnemonic(256).split(' ')).toHaveLength(24);
+  });
+
+  it('parses every supported keyfile format', () => {
+    const keypair = Keypair.fromHex(secretHex);
+    const formats = [
+      secretHex,
+      `${secretHex}\n`,
+      JSON.stringify(secretHex),
+      JSON.stringify(Array.from(keypair.secretKey)),
+      JSON.stringify([...keypair.secretKey, ...keypair.pubkey.bytes]),
+      JSON.stringify(keypair.toKeyfile()),
+    ];
+    formats.forEach(contents => {
+      expect(Keypair.fromKeyfile(contents).toHex()).toBe(secretHex);
+    });
+
+    expect(() => Keypair.fromKeyfile(JSON.stringify({ secret_key: secretHex, public_key: INTERNAL_KEY })))
+      .toThrow('does not match');
+    expect(() => Keypair.fromKeyfile('{"key": 1}')).toThrow('Unrecognized keyfile format');
+    expect(() => Keypair.fromKeyfile('not a key')).toThrow('neither JSON nor a hex secret key');
+  });
+
+  it('saves and loads keyfiles', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'arch-keypair-'));
+    const path = join(dir, 'key.json');
+    const keypair = Keypair.generate();
+
+    await saveKeypair(path, keypair);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(keypair.toKeyfile());
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect((await loadKeypair(path)).toHex()).toBe(keypair.toHex());
+
+    await expect(saveKeypair(path, Keypair.generate())).rejects.toMatchObject({ code: 'EEXIST' });
+    chmodSync(path, 0o644);
+    await saveKeypair(path, Keypair.generate(), { overwrite: true });
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    writeFileSync(path, secretHex);
+    expect((await loadKeypair(path)).toHex()).toBe(secretHex);
+  });
+});
+
+describe('taproot addresses', () => {
+  it('tweaks the internal key as in BIP86', () => {
+    const pubkey = Pubkey.fromString(INTERNAL_KEY);
+    expect(bytesToHex(taprootOutputKey(pubkey))).toBe(OUTPUT_KEY);
+    expect(getTaprootAddress(pubkey)).toBe(ADDRESS);
+  });
+
+  it('uses the network prefix', () => {
+    const pubkey = Pubkey.fromString(INTERNAL_KEY);
+    expect(getTaprootAddress(pubkey, 'testnet')).toMatch(/^tb1p/);
+    expect(getTaprootAddress(pubkey, 'signet')).toMatch(/^tb1p/);
+    expect(getTaprootAddress(pubkey, 'regtest')).toMatch(/^bcrt1p/);
+  });
+});
@@ -0,0 +1,147 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import {
+  decodeMessage,
+  decodeTransaction,
+  encodeMessage,
+  encodeTransaction,
+  transactionFromBase64,
+  transactionFromHex,
+  transactionToBase64,
+  transactionToHex,
+  verifyTransaction
+} from '../src/message';
+import { TransactionBuilder } from '../src/transactionBuilder';
+import { KeypairSigner } from '../src/signer';
+import { Message, Pubkey, RuntimeTransaction } from '../src/types';
+
+describe('Message and transaction serialization', () => {
+  const signer = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  const program = new Pubkey(new Uint8Array(32).fill(7));
+
+  const buildTransaction = (): Promise<RuntimeTransaction> => new TransactionBuilder()
+    .addInstruction(Pubkey.systemProgram(), [{ pubkey: signer.pubkey, is_signer: true, is_writable: true }], new Array(37).fill(0))
+    .addInstruction(program, [
+      { pubkey: signer.pubkey, is_signer: true, is_writable: true },
+      { pubkey: program, is_signer: false, is_writable: false },
+    ], [1, 2, 3, 255])
+    .sign([signer]);
+
+  // Normalizes Pubkey instances so decoded and original messages compare structurally.
+  const plain = (message: Message) => JSON.parse(JSON.stringify(message, (_key, value) =>
+    value instanceof Pubkey ? value.toString() : value));
+
+  it('round-trips a message through encodeMessage and decodeMessage', async () => {
+    const { message } = await buildTransaction();
+    const decoded = decodeMessage(encodeMessage(message));
+
+    expect(plain(decoded)).toEqual(plain(message));
+    expect(decoded.signers[0]).toBeInstanceOf(Pubkey);
+  });
+
+  it('encodes the version, signatures and message in order', async () => {
+    const transaction = await buildTransaction();
+    const bytes = encodeTransaction(transaction);
+
+    expect(Array.from(bytes.slice(0, 5))).toEqual([0, 0, 0, 0, 1]);
+    expect(Array.from(bytes.slice(5, 69))).toEqual(Array.from(hexToBytes(transaction.signatures[0])));
+    expect(Array.from(bytes.slice(69))).toEqual(encodeMessage(transaction.message));
+  });
+
+  it('round-trips transactions through hex and base64', async () => {
+    const transaction = await buildTransaction();
+
+    for (const decoded of [
+      decodeTransaction(encodeTransaction(transaction)),
+      transactionFromHex(transactionToHex(transaction)),
+      transactionFromBase64(transactionToBase64(transaction)),
+    ]) {
+      expect(decoded.version).toBe(transaction.version);
+      expect(decoded.signatures).toEqual(transaction.signatures);
+      expect(plain(decoded.message)).toEqual(plain(transaction.message));
+    }
+  });
+
+  it('rejects truncated, padded and malformed input', async () => {
+    const bytes = encodeTransaction(await buildTransaction());
+
+    expect(() => decodeTransaction(bytes.slice(0, bytes.length - 1))).toThrow('Unexpected end of data');
+    expect(() => decodeTransaction(new Uint8Array([...bytes, 0]))).toThrow('1 trailing bytes');
+    expect(() => decodeTransaction(bytes.slice(0, 2))).toThrow('Unexpected end of data');
+
+    const message = encodeMessage({
+      signers: [],
+      instructions: [{ program_id: program, accounts: [{ pubkey: program, is_signer: false, is_writable: false }], data: [] }],
+    });
+    message[1 + 1 + 32 + 1 + 32] = 2;
+    expect(() => decodeMessage(message)).toThrow('Invalid boolean 2');
+  });
+
+  it('rejects signatures of the wrong length', () => {
+    const transaction: RuntimeTransaction = { version: 0, signatures: ['abcd'], message: { signers: [], instructions: [] } };
+    expect(() => encodeTransaction(transaction)).toThrow('Signature 0 must be 64 bytes');
+  });
+
+  it('rejects counts that do not fit in a u8', () => {
+    const signatures = Array.from({ length: 256 }, () => '00'.repeat(64));
+    const signers = Array.from({ length: 256 }, () => program);
+    const accounts = signers.map(pubkey => ({ pubkey, is_signer: false, is_writable: false }));
+    const instruction = { program_id: program, accounts: [], data: [] };
+
+    expect(() => encodeTransaction({ version: 0, signatures, message: { signers: [], instructions: [] } }))
+      .toThrow(RangeError);
+    expect(() => encodeTransaction({ version: 0, signatures, message: { signers: [], instructions: [] } }))
+      .toThrow(new RangeError('Transaction has 256 signatures, maximum is 255'));
+    expect(() => encodeTransaction({ version: 0, signatures: [], message: { signers, instructions: [] } }))
+      .toThrow(new RangeError('Message has 256 signers, maximum is 255'));
+    expect(() => encodeMessage({ signers: [], instructions: Array.from({ length: 256 }, () => instruction) }))
+      .toThrow(new RangeError('Message has 256 instructions, maximum is 255'));
+    expect(() => encodeMessage({ signers: [], instructions: [{ ...instruction, accounts }] }))
+      .toThrow(new RangeError('Instruction 0 has 256 accounts, maximum is 255'));
+  });
+});
+
+describe('verifyTransaction', () => {
+  const alice = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  const bob = new KeypairSigner(hexToBytes('0101010101010101010101010101010101010101010101010101010101010101'));
+
+  const buildTransaction = () => new TransactionBuilder()
+    .addInstruction(new Pubkey(new Uint8Array(32).fill(7)), [
+      { pubkey: alice.pubkey, is_signer: true, is_writable: true },
+      { pubkey: bob.pubkey, is_signer: true, is_writable: false },
+    ], [1, 2, 3])
+    .sign([alice, bob]);
+
+  it('accepts a fully signed transaction', async () => {
+    const result = await verifyTransaction(await buildTransaction());
+    expect(result).toEqual({ valid: true, missing: [], invalid: [], unexpectedSignatures: 0 });
+  });
+
+  it('reports missing signatures', async () => {
+    const transaction = await buildTransaction();
+    const result = await verifyTransaction({ ...transaction, signatures: transaction.signatures.slice(0, 1) });
+
+    expect(result.valid).toBe(false);
+    expect(result.missing).toEqual([bob.pubkey]);
+  });
+
+  it('reports signatures in the wrong order or over a different message as invalid', async () => {
+    const transaction = await buildTransaction();
+
+    const swapped = await verifyTransaction({ ...transaction, signatures: [...transaction.signatures].reverse() });
+    expect(swapped.invalid).toEqual([alice.pubkey, bob.pubkey]);
+
+    const tampered = transaction.message.instructions.map(ix => ({ ...ix, data: [9] }));
+    const modified = await verifyTransaction({ ...transaction, message: { ...transaction.message, instructions: tampered } });
+    expect(modified.valid).toBe(false);
+    expect(modified.invalid).toHaveLength(2);
+  });
+
+  it('treats malformed signatures as invalid and counts extra signatures', async () => {
+    const transaction = await buildTransaction();
+    const result = await verifyTransaction({ ...transaction, signatures: ['zz', transaction.signatures[1], 'ab'.repeat(64)] });
+
+    expect(result.invalid).toEqual([alice.pubkey]);
+    expect(result.unexpectedSignatures).toBe(1);
+    expect(result.valid).toBe(false);
+  });
+});
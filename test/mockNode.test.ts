@@ -0,0 +1,134 @@
+import { ArchRpcClient } from '../src/index';
+import { MockArchNode } from '../src/mockNode';
+import { ArchJsonRpcError, ArchTransactionFailedError } from '../src/errors';
+import { Keypair } from '../src/keypair';
+import { SystemProgram } from '../src/systemProgram';
+import { TransactionBuilder } from '../src/transactionBuilder';
+import { BlockWithTransactions, Instruction, Pubkey, Status } from '../src/types';
+
+describe('MockArchNode', () => {
+  const payer = Keypair.fromSeed(new Uint8Array(32).fill(1));
+  const programId = Keypair.fromSeed(new Uint8Array(32).fill(2)).pubkey;
+  const utxo = 'cd'.repeat(32);
+  let node: MockArchNode;
+  let client: ArchRpcClient;
+
+  beforeEach(async () => {
+    node = new MockArchNode();
+    client = new ArchRpcClient(await node.listen());
+  });
+
+  afterEach(async () => {
+    await node.close();
+  });
+
+  async function send(...instructions: Instruction[]) {
+    const builder = new TransactionBuilder();
+    instructions.forEach(instruction => builder.add(instruction));
+    return client.sendTransaction(await builder.sign([payer]));
+  }
+
+  it('applies system program instructions and indexes them into blocks', async () => {
+    const txid = await client.createArchAccount(payer, utxo, 1);
+    await client.confirmTransaction(txid, { pollInterval: 1 });
+    await send(
+      SystemProgram.writeBytes(payer.pubkey, 0, [1, 2, 3, 4]),
+      SystemProgram.transferAccountOwnership(payer.pubkey, programId)
+    );
+
+    const account = await client.readAccountInfo(payer.pubkey);
+    expect(account).toEqual({ owner: programId, data: [1, 2, 3, 4], utxo: `${utxo}:1`, is_executable: false });
+
+    expect(await client.getProgramAccounts(programId, [{ dataSize: 4 }, { memcmp: { offset: 1, bytes: '0203' } }]))
+      .toHaveLength(1);
+    expect(await client.getProgramAccounts(programId, [{ memcmp: { offset: 1, bytes: 'ff' } }])).toEqual([]);
+
+    const blocks: BlockWithTransactions[] = [];
+    for await (const block of client.blocks()) {
+      blocks.push(block);
+    }
+    expect(blocks.map(b => b.block.transaction_count)).toEqual([0, 1, 1]);
+    expect(blocks[1].block.previous_block_hash).toBe(blocks[0].hash);
+    expect(blocks[1].transactions[0].runtime_transaction.message.signers[0].equals(payer.pubkey)).toBe(true);
+  });
+
+  it('rejects transactions whose signatures do not verify', async () => {
+    const transaction = await new TransactionBuilder().add(SystemProgram.createAccount(payer.pubkey, utxo, 0)).sign([payer]);
+    transaction.signatures[0] = '00'.repeat(64);
+
+    const error = await client.sendTransaction(transaction).catch(e => e);
+    expect(error).toBeInstanceOf(ArchJsonRpcError);
+    expect(error.message).toBe(`Invalid signatures for ${payer.pubkey.toString()}`);
+    expect(node.getAccount(payer.pubkey)).toBeUndefined();
+  });
+
+  it('runs registered program handlers and rolls back failed transactions', async () => {
+    node.setAccount(payer.pubkey, { owner: programId, data: [0] });
+    node.registerProgram(programId, ({ accounts, data, log }) => {
+      if (data[0] === 0xff) {
+        throw new Error('refusing to count');
+      }
+      accounts[0].data[0] += data[0];
+      log(`counter is ${accounts[0].data[0]}`);
+    });
+    const increment = (by: number) => ({
+      program_id: programId,
+      accounts: [{ pubkey: payer.pubkey, is_signer: true, is_writable: true }],
+      data: [by],
+    });
+
+    const txid = await send(increment(2));
+    expect(node.getAccount(payer.pubkey)!.data).toEqual([2]);
+    expect(node.getTransaction(txid)!.logs).toEqual([`Program ${programId.toString()}: counter is 2`]);
+
+    const failed = await send(increment(3), increment(0xff));
+    const error = await client.confirmTransaction(failed, { pollInterval: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(ArchTransactionFailedError);
+    expect(error.transaction.failure).toBe('refusing to count');
+    expect(node.getAccount(payer.pubkey)!.data).toEqual([2]);
+  });
+
+  it('enforces account ownership and writability for programs', async () => {
+    const other = new Pubkey(new Uint8Array(32).fill(9));
+    node.setAccount(payer.pubkey, { data: [0] });
+    node.setAccount(other, { owner: programId, data: [0] });
+    node.registerProgram(programId, ({ accounts }) => {
+      accounts.forEach(account => account.data[0] = 1);
+    });
+
+    const notOwned = await send({ program_id: programId, accounts: [{ pubkey: payer.pubkey, is_signer: true, is_writable: true }], data: [] });
+    expect(node.getTransaction(notOwned)!.failure).toMatch(/modified data of account .* it does not own/);
+
+    const readOnly = await send({ program_id: programId, accounts: [{ pubkey: other, is_signer: false, is_writable: false }], data: [] });
+    expect(node.getTransaction(readOnly)!.failure).toMatch(/modified read-only account/);
+  });
+
+  it('leaves transactions processing until a block is produced in manual mode', async () => {
+    await node.close();
+    node = new MockArchNode({ manualBlocks: true });
+    client = new ArchRpcClient(await node.listen());
+
+    const txid = await client.createArchAccount(payer, utxo, 0);
+    expect((await client.getProcessedTransaction(txid)).status).toBe(Status.Processing);
+    expect(await client.getBlockCount()).toBe(1);
+
+    const hash = await node.produceBlock();
+    expect((await client.getProcessedTransaction(txid)).status).toBe(Status.Processed);
+    expect((await client.getBlock(hash)).transactions).toEqual([txid]);
+  });
+
+  it('deploys a program end to end', async () => {
+    const elf = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+    const result = await client.deployProgram(payer, elf, { utxo: { txid: utxo, vout: 0 }, chunkSize: 40, pollInterval: 1 });
+
+    expect(result.txids).toHaveLength(5);
+    expect(node.getAccount(payer.pubkey)).toEqual(expect.objectContaining({ data: Array.from(elf), is_executable: true }));
+  });
+
+  it('answers JSON-RPC errors for unknown methods and missing accounts', async () => {
+    expect(await node.handle({ jsonrpc: '2.0', id: 1, method: 'nope', params: [] }))
+      .toEqual({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method nope not found' } });
+    await expect(client.readAccountInfo(payer.pubkey)).rejects.toThrow(`Account ${payer.pubkey.toString()} not found`);
+  });
+});
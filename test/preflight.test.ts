@@ -0,0 +1,123 @@
+import { ArchRpcClient } from '../src/index';
+import { MockArchNode } from '../src/mockNode';
+import { ArchJsonRpcError } from '../src/errors';
+import { Keypair } from '../src/keypair';
+import { MAX_TRANSACTION_SIZE, encodeTransaction } from '../src/message';
+import { checkTransaction, transactionSize } from '../src/preflight';
+import { SystemProgram } from '../src/systemProgram';
+import { TransactionBuilder } from '../src/transactionBuilder';
+import { Instruction, Pubkey, RuntimeTransaction } from '../src/types';
+
+describe('preflight', () => {
+  const payer = Keypair.fromSeed(new Uint8Array(32).fill(5));
+  const other = Keypair.fromSeed(new Uint8Array(32).fill(6));
+  const programId = new Pubkey(new Uint8Array(32).fill(8));
+  const increment: Instruction = {
+    program_id: programId,
+    accounts: [{ pubkey: payer.pubkey, is_signer: true, is_writable: true }],
+    data: [1],
+  };
+
+  async function sign(...instructions: Instruction[]): Promise<RuntimeTransaction> {
+    const builder = new TransactionBuilder();
+    instructions.forEach(instruction => builder.add(instruction));
+    return builder.sign([payer, other]);
+  }
+
+  it('measures the exact encoded size', async () => {
+    const transaction = await sign(SystemProgram.writeBytes(payer.pubkey, 0, new Uint8Array(100)));
+
+    const size = transactionSize(transaction);
+    expect(size.transaction).toBe(encodeTransaction(transaction).length);
+    expect(size.message).toBe(size.transaction - 4 - 1 - 64);
+    expect(size.limit).toBe(MAX_TRANSACTION_SIZE);
+  });
+
+  it('reports protocol limit violations', async () => {
+    const tooLarge = await checkTransaction(await sign(SystemProgram.writeBytes(payer.pubkey, 0, new Uint8Array(MAX_TRANSACTION_SIZE))));
+    expect(tooLarge.ok).toBe(false);
+    expect(tooLarge.errors.map(e => e.code)).toEqual(['transaction_too_large']);
+
+    const tooMany = await checkTransaction({
+      version: 0,
+      signatures: [],
+      message: { signers: [], instructions: Array(256).fill({ program_id: programId, accounts: [], data: [] }) },
+    });
+    expect(tooMany.errors.map(e => e.code)).toEqual(['too_many_instructions', 'transaction_too_large']);
+  });
+
+  it('validates account metas and signatures', async () => {
+    const transaction = await sign(increment);
+    transaction.message.instructions.push({
+      program_id: programId,
+      accounts: [{ pubkey: other.pubkey, is_signer: true, is_writable: false }],
+      data: [],
+    });
+    transaction.message.signers.push(payer.pubkey);
+
+    const report = await checkTransaction(transaction);
+
+    expect(report.errors.map(e => [e.code, e.instruction])).toEqual([
+      ['duplicate_signer', undefined],
+      ['missing_signer', 1],
+      ['missing_signature', undefined],
+      ['invalid_signature', undefined],
+    ]);
+    expect(report.errors[1].account!.equals(other.pubkey)).toBe(true);
+  });
+
+  describe('with a node', () => {
+    let node: MockArchNode;
+    let client: ArchRpcClient;
+
+    beforeEach(async () => {
+      node = new MockArchNode();
+      node.setAccount(payer.pubkey, { owner: programId, data: [0] });
+      node.registerProgram(programId, ({ accounts, data, log }) => {
+        if (data[0] === 0) {
+          throw new Error('nothing to add');
+        }
+        accounts[0].data[0] += data[0];
+        log('added');
+      });
+      client = new ArchRpcClient(await node.listen());
+    });
+
+    afterEach(async () => {
+      await node.close();
+    });
+
+    it('simulates without committing and reports logs and changed accounts', async () => {
+      const report = await client.preflightTransaction(await sign(increment));
+
+      expect(report).toEqual(expect.objectContaining({
+        ok: true,
+        errors: [],
+        simulated: true,
+        logs: [`Program ${programId.toString()}: added`],
+      }));
+      expect(report.changedAccounts.map(({ pubkey, account }) => [pubkey.toString(), account.data]))
+        .toEqual([[payer.pubkey.toString(), [1]]]);
+      expect(node.getAccount(payer.pubkey)!.data).toEqual([0]);
+    });
+
+    it('reports the reason a simulation fails', async () => {
+      const report = await client.preflightTransaction(await sign({ ...increment, data: [0] }));
+
+      expect(report.ok).toBe(false);
+      expect(report.errors).toEqual([{ code: 'simulation_failed', message: 'nothing to add' }]);
+    });
+
+    it('skips simulation when offline checks fail or the node lacks it', async () => {
+      const unsigned = await sign(increment);
+      unsigned.signatures = [];
+      const simulate = jest.spyOn(client, 'simulateTransaction');
+      expect((await client.preflightTransaction(unsigned)).simulated).toBe(false);
+      expect(simulate).not.toHaveBeenCalled();
+
+      simulate.mockRejectedValue(new ArchJsonRpcError('Method not found', 'simulate_transaction', {}, -32601));
+      const report = await client.preflightTransaction(await sign(increment));
+      expect(report).toEqual(expect.objectContaining({ ok: true, simulated: false, logs: [] }));
+    });
+  });
+});
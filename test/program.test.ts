@@ -0,0 +1,170 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { Idl, Program } from '../src/program';
+import { KeypairSigner } from '../src/signer';
+import { verifyTransaction } from '../src/message';
+import { encode } from '../src/borsh';
+import { Pubkey } from '../src/types';
+
+describe('Program', () => {
+  const programId = new Pubkey(new Uint8Array(32).fill(7));
+  const vault = new Pubkey(new Uint8Array(32).fill(8));
+  const owner = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+
+  const idl: Idl = {
+    name: 'vault',
+    instructions: [
+      {
+        name: 'initialize',
+        accounts: [{ name: 'vault', is_signer: false, is_writable: true }],
+        args: [],
+      },
+      {
+        name: 'deposit',
+        accounts: [
+          { name: 'vault', is_signer: false, is_writable: true },
+          { name: 'owner', is_signer: true, is_writable: false },
+        ],
+        args: [{ name: 'amount', type: 'u64' }, { name: 'memo', type: { option: { defined: 'Memo' } } }],
+      },
+    ],
+    accounts: [
+      {
+        name: 'Vault',
+        discriminator: [0xaa, 0xbb],
+        type: { kind: 'struct', fields: [{ name: 'authority', type: 'pubkey' }, { name: 'balance', type: 'u64' }] },
+      },
+    ],
+    types: [{ name: 'Memo', type: { kind: 'struct', fields: [{ name: 'text', type: 'string' }] } }],
+  };
+
+  const vaultData = [0xaa, 0xbb, ...encode({ struct: { authority: 'pubkey', balance: 'u64' } }, { authority: owner.pubkey, balance: 42 })];
+
+  const createClient = () => ({
+    sendTransaction: jest.fn().mockResolvedValue('txid'),
+    readAccountInfo: jest.fn().mockResolvedValue({ owner: programId, data: vaultData, utxo: '', is_executable: false }),
+    getProgramAccounts: jest.fn().mockResolvedValue([
+      { pubkey: vault, account: { owner: programId, data: vaultData, utxo: '', is_executable: false } },
+    ]),
+  });
+
+  it('encodes the discriminant, the args and the IDL accounts', () => {
+    const program = new Program(idl, programId, createClient() as any);
+
+    const instruction = program.methods
+      .deposit({ amount: 5, memo: { text: 'hi' } })
+      .accounts({ vault, owner: owner.pubkey })
+      .instruction();
+
+    expect(instruction.program_id).toBe(programId);
+    expect(instruction.data).toEqual([1, 5, 0, 0, 0, 0, 0, 0, 0, 1, 2, 0, 0, 0, 104, 105]);
+    expect(instruction.accounts).toEqual([
+      { pubkey: vault, is_signer: false, is_writable: true },
+      { pubkey: owner.pubkey, is_signer: true, is_writable: false },
+    ]);
+  });
+
+  it('requires every IDL account', () => {
+    const program = new Program(idl, programId, createClient() as any);
+
+    expect(() => program.methods.deposit({ amount: 1, memo: null }).accounts({ vault }).instruction())
+      .toThrow('Missing account owner for deposit');
+  });
+
+  it('signs and sends the instruction', async () => {
+    const client = createClient();
+    const program = new Program(idl, programId, client as any);
+
+    const txid = await program.methods
+      .deposit({ amount: 1, memo: null })
+      .accounts({ vault, owner: owner.pubkey })
+      .remainingAccounts([{ pubkey: programId, is_signer: false, is_writable: false }])
+      .signers([owner])
+      .send();
+
+    const [transaction] = client.sendTransaction.mock.calls[0];
+    expect(txid).toBe('txid');
+    expect(transaction.message.instructions[0].accounts).toHaveLength(3);
+    expect((await verifyTransaction(transaction)).valid).toBe(true);
+  });
+
+  it('fetches and decodes accounts, checking the discriminator', async () => {
+    const client = createClient();
+    const program = new Program(idl, programId, client as any);
+
+    await expect(program.account.Vault.fetch(vault)).resolves.toEqual({ authority: owner.pubkey, balance: BigInt(42) });
+    expect(() => program.account.Vault.decode([0, 0, ...vaultData.slice(2)])).toThrow('Account data is not a Vault');
+  });
+
+  it('filters program accounts by discriminator', async () => {
+    const client = createClient();
+    const program = new Program(idl, programId, client as any);
+
+    const accounts = await program.account.Vault.all([{ dataSize: vaultData.length }]);
+
+    expect(client.getProgramAccounts).toHaveBeenCalledWith(
+      programId,
+      [{ memcmp: { offset: 0, bytes: 'aabb' } }, { dataSize: vaultData.length }],
+      undefined
+    );
+    expect(accounts).toEqual([{ pubkey: vault, data: { authority: owner.pubkey, balance: BigInt(42) } }]);
+  });
+
+  it('rejects unknown and missing args', () => {
+    const program = new Program(idl, programId, createClient() as any);
+
+    expect(() => program.methods.deposit({ amount: 1, amont: 2 })).toThrow('Unknown argument amont for deposit');
+    expect(() => program.methods.deposit({ memo: null })).toThrow('Missing argument amount for deposit');
+    expect(program.methods.deposit({ amount: 1 }).accounts({ vault, owner: owner.pubkey }).instruction().data)
+      .toEqual([1, 1, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('types the args of an IDL declared as const', () => {
+    const typed = {
+      name: 'vault',
+      instructions: [
+        { name: 'initialize', accounts: [], args: [] },
+        { name: 'deposit', accounts: [], args: [{ name: 'amount', type: 'u64' }, { name: 'memo', type: { option: { defined: 'Memo' } } }] },
+      ],
+      types: [{ name: 'Memo', type: { kind: 'struct', fields: [{ name: 'text', type: 'string' }] } }],
+    } as const;
+    const program = new Program(typed, programId, createClient() as any);
+
+    program.methods.initialize();
+    program.methods.deposit({ amount: BigInt(1), memo: { text: 'hi' } });
+    // @ts-expect-error amount is a number or bigint
+    expect(() => program.methods.deposit({ amount: 'one' })).toThrow();
+    // @ts-expect-error memo.text is a string
+    expect(() => program.methods.deposit({ amount: 1, memo: { text: 1 } })).toThrow();
+    // @ts-expect-error withdraw is not in the IDL
+    expect(program.methods.withdraw).toBeUndefined();
+  });
+
+  it('types the accounts of an IDL declared as const', async () => {
+    const typed = {
+      name: 'vault',
+      instructions: [],
+      accounts: [
+        {
+          name: 'Vault',
+          discriminator: [0xaa, 0xbb],
+          type: { kind: 'struct', fields: [{ name: 'authority', type: 'pubkey' }, { name: 'balance', type: 'u64' }] },
+        },
+      ],
+    } as const;
+    const program = new Program(typed, programId, createClient() as any);
+
+    const state = await program.account.Vault.fetch(vault);
+    const balance: bigint = state.balance;
+    expect(balance).toBe(BigInt(42));
+    expect(state.authority.equals(owner.pubkey)).toBe(true);
+    // @ts-expect-error owner is not a field of Vault
+    expect(state.owner).toBeUndefined();
+    // @ts-expect-error Pool is not in the IDL
+    expect(program.account.Pool).toBeUndefined();
+  });
+
+  it('rejects unknown types', () => {
+    const broken: Idl = { name: 'broken', instructions: [{ name: 'x', accounts: [], args: [{ name: 'a', type: { defined: 'Nope' } }] }] };
+    expect(() => new Program(broken, programId, createClient() as any)).toThrow('Unknown IDL type Nope');
+  });
+});
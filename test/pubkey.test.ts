@@ -0,0 +1,76 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Pubkey } from '../src/types';
+
+describe('Pubkey', () => {
+  const hex = 'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115';
+  const pubkey = Pubkey.fromString(hex);
+
+  it('round-trips base58 and bech32m', () => {
+    expect(Pubkey.fromBase58(pubkey.toBase58()).equals(pubkey)).toBe(true);
+    expect(Pubkey.fromBase58('11111111111111111111111111111112').equals(Pubkey.systemProgram())).toBe(true);
+
+    const bech = pubkey.toBech32m('arch');
+    expect(bech.startsWith('arch1')).toBe(true);
+    expect(Pubkey.fromBech32m(bech, 'arch').equals(pubkey)).toBe(true);
+    expect(() => Pubkey.fromBech32m(bech, 'tarch')).toThrow('Expected bech32m prefix tarch, got arch');
+  });
+
+  it('rejects malformed encodings', () => {
+    expect(() => Pubkey.fromBase58('0OIl')).toThrow('Invalid base58 pubkey');
+    expect(() => Pubkey.fromBase58('2')).toThrow('Invalid base58 pubkey');
+    expect(() => Pubkey.fromBech32m('arch1qqqqqq')).toThrow('Invalid bech32m pubkey');
+  });
+
+  it('parses any supported format', () => {
+    [hex, `0x${hex}`, pubkey.toBase58(), pubkey.toBech32m('arch')].forEach(encoded => {
+      expect(Pubkey.parse(encoded).equals(pubkey)).toBe(true);
+    });
+    expect(() => Pubkey.parse('nope')).toThrow('Invalid pubkey nope');
+  });
+
+  it('compares by bytes and serializes to hex JSON', () => {
+    const smaller = new Pubkey(new Uint8Array(32).fill(1));
+    const larger = new Pubkey(new Uint8Array(32).fill(2));
+
+    expect(smaller.equals(new Pubkey(new Uint8Array(32).fill(1)))).toBe(true);
+    expect(smaller.equals(larger)).toBe(false);
+    expect([larger, Pubkey.DEFAULT, smaller].sort((a, b) => a.compare(b))).toEqual([Pubkey.DEFAULT, smaller, larger]);
+    expect(JSON.stringify({ owner: pubkey })).toBe(`{"owner":"${hex}"}`);
+    expect(Pubkey.SYSTEM_PROGRAM.equals(Pubkey.systemProgram())).toBe(true);
+  });
+
+  it('has the ids of the built-in programs', () => {
+    expect(Pubkey.SYSTEM_PROGRAM.toString()).toBe(`${'00'.repeat(31)}01`);
+    expect(Pubkey.APL_TOKEN_PROGRAM.toString()).toBe(bytesToHex(new TextEncoder().encode('apl-token00000000000000000000000')));
+    expect(Pubkey.ASSOCIATED_TOKEN_PROGRAM.toString())
+      .toBe(bytesToHex(new TextEncoder().encode('associated-token-account00000000')));
+  });
+});
+
+describe('program addresses', () => {
+  const programId = new Pubkey(new Uint8Array(32).fill(7));
+
+  it('matches the reference derivation', () => {
+    // Computed with findProgramAddress from @saturnbtcio/arch-sdk 0.0.24.
+    const vectors = [
+      ['vault', '782a007fa2ddb009ea0fe379715a08dd70909710c1c88d14de4228028f04d7d1'],
+      // The bump-255 hash is a valid x-only key; the runtime still accepts it.
+      ['escrow', '5789f06a57b10720b1e4aad7637a88e8e0bca701f0ddd40a0a2c7c93a5f26809'],
+    ];
+    for (const [seed, expected] of vectors) {
+      const [address, bump] = Pubkey.findProgramAddress([new TextEncoder().encode(seed)], programId);
+
+      expect(bytesToHex(address.bytes)).toBe(expected);
+      expect(bump).toBe(255);
+      expect(Pubkey.createProgramAddress([new TextEncoder().encode(seed), [bump]], programId).equals(address)).toBe(true);
+    }
+    expect(() => secp256k1.Point.fromHex(hexToBytes(vectors[1][1]))).not.toThrow();
+  });
+
+  it('validates seed limits', () => {
+    expect(() => Pubkey.createProgramAddress([new Uint8Array(33)], programId)).toThrow('Seed 0 is 33 bytes, maximum is 32');
+    expect(() => Pubkey.createProgramAddress(Array.from({ length: 17 }, () => [1]), programId)).toThrow('Too many seeds');
+    expect(() => Pubkey.findProgramAddress(Array.from({ length: 16 }, () => [1]), programId)).toThrow('Too many seeds');
+  });
+});
@@ -0,0 +1,75 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { ArchRpcClient } from '../src/index';
+import { ExternalSigner, KeypairSigner } from '../src/signer';
+import { Message, Pubkey } from '../src/types';
+
+jest.mock('axios');
+
+describe('Signer', () => {
+  const privateKeyA = hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df');
+  const privateKeyB = hexToBytes('0101010101010101010101010101010101010101010101010101010101010101');
+
+  const buildMessage = (signers: Pubkey[]): Message => ({
+    signers,
+    instructions: [{
+      program_id: Pubkey.systemProgram(),
+      accounts: signers.map(pubkey => ({ pubkey, is_signer: true, is_writable: true })),
+      data: [1, 2, 3],
+    }],
+  });
+
+  const hashOf = (client: ArchRpcClient, message: Message) =>
+    sha256(bytesToHex(sha256(new Uint8Array(client.encodeMessage(message)))));
+
+  it('derives the x-only pubkey from the private key', () => {
+    const signer = new KeypairSigner(privateKeyA);
+    expect(signer.pubkey.bytes).toEqual(secp256k1.schnorr.getPublicKey(privateKeyA));
+  });
+
+  it('rejects invalid private keys', () => {
+    expect(() => new KeypairSigner(new Uint8Array(32))).toThrow('Invalid private key');
+  });
+
+  it('orders signatures by message signers regardless of signer order', async () => {
+    const client = new ArchRpcClient('http://localhost:8000');
+    const a = new KeypairSigner(privateKeyA);
+    const b = new KeypairSigner(privateKeyB);
+    const message = buildMessage([a.pubkey, b.pubkey]);
+
+    const signatures = await client.signMessage(message, [b, a]);
+    const messageHash = hashOf(client, message);
+
+    expect(signatures).toHaveLength(2);
+    expect(await secp256k1.schnorr.verify(signatures[0], messageHash, a.pubkey.bytes)).toBe(true);
+    expect(await secp256k1.schnorr.verify(signatures[1], messageHash, b.pubkey.bytes)).toBe(true);
+  });
+
+  it('fails when a message signer has no matching signer', async () => {
+    const client = new ArchRpcClient('http://localhost:8000');
+    const a = new KeypairSigner(privateKeyA);
+    const b = new KeypairSigner(privateKeyB);
+
+    await expect(client.signMessage(buildMessage([a.pubkey, b.pubkey]), [a]))
+      .rejects.toThrow(`Missing signer for ${b.pubkey.toString()}`);
+  });
+
+  it('delegates to an external signing function', async () => {
+    const client = new ArchRpcClient('http://localhost:8000');
+    const pubkey = new Pubkey(secp256k1.schnorr.getPublicKey(privateKeyA));
+    const signFn = jest.fn(async (hash: Uint8Array) => bytesToHex(await secp256k1.schnorr.sign(hash, privateKeyA)));
+    const signer = new ExternalSigner(pubkey, signFn);
+    const message = buildMessage([pubkey]);
+
+    const [signature] = await client.signMessage(message, [signer]);
+
+    expect(signFn).toHaveBeenCalledWith(hashOf(client, message), pubkey);
+    expect(await secp256k1.schnorr.verify(signature, hashOf(client, message), pubkey.bytes)).toBe(true);
+  });
+
+  it('rejects malformed external signatures', async () => {
+    const signer = new ExternalSigner(Pubkey.systemProgram(), async () => new Uint8Array(10));
+    await expect(signer.sign(new Uint8Array(32))).rejects.toThrow('Invalid signature length');
+  });
+});
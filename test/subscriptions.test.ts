@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { ArchRpcClient } from '../src/index';
+import { WebSocketLike } from '../src/subscriptions';
+import { Pubkey, Status } from '../src/types';
+
+jest.mock('axios');
+
+const OWNER = Array(32).fill(0);
+const EMPTY_TRANSACTION = { version: 0, signatures: [], message: { signers: [], instructions: [] } };
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    if (predicate()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error('Timed out waiting for condition');
+}
+
+class FakeWebSocket implements WebSocketLike {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  closed = false;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  emit(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+}
+
+describe('subscriptions', () => {
+  const account = new Pubkey(new Uint8Array(32).fill(1));
+  const program = new Pubkey(new Uint8Array(32).fill(2));
+  let post: jest.Mock;
+  let state: Record<string, any>;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    state = {};
+    post = jest.fn(async (_url: string, payload: any) => {
+      const result = state[payload.method];
+      if (result === undefined) {
+        return { data: { error: { code: 404, message: 'not found' } } };
+      }
+      return { data: { result } };
+    });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+  });
+
+  const methodCalls = (method: string) => post.mock.calls.filter(([, payload]) => payload.method === method).length;
+
+  describe('polling', () => {
+    let client: ArchRpcClient;
+
+    beforeEach(() => {
+      client = new ArchRpcClient('http://test-url.com', { subscriptions: { pollInterval: 5 } });
+    });
+
+    it('reports account changes, including creation, but not the initial state', async () => {
+      const changes: any[] = [];
+      const subscription = client.onAccountChange(account, info => changes.push(info.data));
+
+      await waitFor(() => methodCalls('read_account_info') >= 2);
+      state.read_account_info = { owner: OWNER, data: [1], utxo: 'a:0', is_executable: false };
+      await waitFor(() => changes.length === 1);
+      state.read_account_info = { ...state.read_account_info, data: [2] };
+      await waitFor(() => changes.length === 2);
+      subscription.unsubscribe();
+
+      const calls = methodCalls('read_account_info');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(methodCalls('read_account_info')).toBe(calls);
+      expect(changes).toEqual([[1], [2]]);
+    });
+
+    it('reports created and changed program accounts', async () => {
+      const entry = (fill: number, data: number[]) => ({
+        pubkey: Array(32).fill(fill),
+        account: { owner: Array(32).fill(2), data, utxo: 'a:0', is_executable: false },
+      });
+      state.get_program_accounts = [entry(3, [0]), entry(4, [0])];
+      const changes: any[] = [];
+      const subscription = client.onProgramAccountChange(program, [{ dataSize: 1 }], change => changes.push(change));
+
+      await waitFor(() => methodCalls('get_program_accounts') >= 2);
+      state.get_program_accounts = [entry(3, [0]), entry(4, [9]), entry(5, [1])];
+      await waitFor(() => changes.length === 2);
+      subscription.unsubscribe();
+
+      expect(changes.map(change => change.pubkey.bytes[0])).toEqual([4, 5]);
+      expect(post.mock.calls[0][1].params).toEqual([program.serialize(), [{ dataSize: 1 }]]);
+    });
+
+    it('reports every transaction status and stops once processed', async () => {
+      const statuses: Status[] = [];
+      client.onTransactionStatus('txid', transaction => statuses.push(transaction.status));
+
+      await waitFor(() => methodCalls('get_processed_transaction') >= 1);
+      state.get_processed_transaction = { runtime_transaction: EMPTY_TRANSACTION, status: Status.Processing, bitcoin_txids: [] };
+      await waitFor(() => statuses.length === 1);
+      state.get_processed_transaction = { ...state.get_processed_transaction, status: Status.Processed };
+      await waitFor(() => statuses.length === 2);
+
+      const calls = methodCalls('get_processed_transaction');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(methodCalls('get_processed_transaction')).toBe(calls);
+      expect(statuses).toEqual([Status.Processing, Status.Processed]);
+    });
+  });
+
+  describe('WebSocket', () => {
+    let client: ArchRpcClient;
+
+    beforeEach(() => {
+      client = new ArchRpcClient('http://test-url.com', {
+        subscriptions: {
+          url: 'ws://test-url.com', WebSocket: FakeWebSocket, pollInterval: 5, reconnect: { minDelay: 5, jitter: false },
+        },
+      });
+    });
+
+    it('subscribes on open and re-checks on notifications', async () => {
+      const changes: any[] = [];
+      const subscription = client.onAccountChange(account, info => changes.push(info.data));
+      const socket = FakeWebSocket.instances[0];
+      socket.open();
+
+      expect(socket.url).toBe('ws://test-url.com');
+      expect(socket.sent).toEqual([{
+        method: 'subscribe',
+        params: { topic: 'account_update', filter: { account: account.toString() }, request_id: '0' },
+      }]);
+      socket.emit({ status: 'Subscribed', subscription_id: 'sub-1', topic: 'account_update', request_id: '0' });
+      await waitFor(() => methodCalls('read_account_info') >= 2);
+
+      state.read_account_info = { owner: OWNER, data: [7], utxo: 'a:0', is_executable: false };
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(changes).toEqual([]); // no polling while the socket is up
+
+      socket.emit({ topic: 'account_update', subscription_id: 'sub-1', data: {} });
+      await waitFor(() => changes.length === 1);
+
+      subscription.unsubscribe();
+      expect(socket.sent[1]).toEqual({ method: 'unsubscribe', params: { topic: 'account_update', subscription_id: 'sub-1' } });
+      expect(socket.closed).toBe(true);
+    });
+
+    it('reconnects and resubscribes after the socket drops', async () => {
+      const subscription = client.onTransactionStatus('txid', () => {});
+      FakeWebSocket.instances[0].open();
+      FakeWebSocket.instances[0].drop();
+
+      await waitFor(() => FakeWebSocket.instances.length === 2);
+      const socket = FakeWebSocket.instances[1];
+      socket.open();
+
+      expect(socket.sent[0].params).toEqual({ topic: 'transaction', filter: { hash: 'txid' }, request_id: '0' });
+      subscription.unsubscribe();
+    });
+
+    it('falls back to polling when the socket never opens', async () => {
+      const changes: any[] = [];
+      const subscription = client.onAccountChange(account, info => changes.push(info.data));
+      FakeWebSocket.instances[0].drop();
+
+      await waitFor(() => methodCalls('read_account_info') >= 2);
+      state.read_account_info = { owner: OWNER, data: [3], utxo: 'a:0', is_executable: false };
+      await waitFor(() => changes.length === 1);
+      subscription.unsubscribe();
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { SystemInstructionType, SystemProgram } from '../src/systemProgram';
+import { Pubkey } from '../src/types';
+
+describe('SystemProgram', () => {
+  const account = new Pubkey(new Uint8Array(32).fill(5));
+  const owner = new Pubkey(new Uint8Array(32).fill(6));
+  const txid = 'ab'.repeat(32);
+
+  it('targets the system program with the account as signer and writable', () => {
+    const instruction = SystemProgram.makeExecutable(account);
+
+    expect(instruction.program_id.toString()).toBe(Pubkey.systemProgram().toString());
+    expect(instruction.accounts).toEqual([{ pubkey: account, is_signer: true, is_writable: true }]);
+    expect(instruction.data).toEqual([2]);
+  });
+
+  it('encodes create account as tag 0, txid and little-endian vout', () => {
+    const { data } = SystemProgram.createAccount(account, txid, 258);
+
+    expect(data).toEqual([0, ...new Array(32).fill(0xab), 2, 1, 0, 0]);
+  });
+
+  it('encodes write bytes as tag 1, offset, length and data', () => {
+    const { data } = SystemProgram.writeBytes(account, 1024, [7, 8, 9]);
+
+    expect(data).toEqual([1, 0, 4, 0, 0, 3, 0, 0, 0, 7, 8, 9]);
+  });
+
+  it('encodes transfer account ownership as tag 3 and the owner', () => {
+    const { data } = SystemProgram.transferAccountOwnership(account, owner);
+
+    expect(data).toEqual([3, ...owner.bytes]);
+  });
+
+  it('decodes every instruction it builds', () => {
+    expect(SystemProgram.decode(SystemProgram.createAccount(account, txid, 7)))
+      .toEqual({ type: SystemInstructionType.CreateAccount, account, txid, vout: 7 });
+    expect(SystemProgram.decode(SystemProgram.writeBytes(account, 10, new Uint8Array([1, 2]))))
+      .toEqual({ type: SystemInstructionType.WriteBytes, account, offset: 10, data: [1, 2] });
+    expect(SystemProgram.decode(SystemProgram.makeExecutable(account)))
+      .toEqual({ type: SystemInstructionType.MakeExecutable, account });
+    expect(SystemProgram.decode(SystemProgram.transferAccountOwnership(account, owner)))
+      .toEqual({ type: SystemInstructionType.TransferAccountOwnership, account, owner });
+  });
+
+  it('rejects malformed instructions', () => {
+    const valid = SystemProgram.writeBytes(account, 0, [1, 2, 3]);
+
+    expect(() => SystemProgram.decode({ ...valid, program_id: owner })).toThrow('Not a system program instruction');
+    expect(() => SystemProgram.decode({ ...valid, data: valid.data.slice(0, -1) })).toThrow('Invalid data length 11');
+    expect(() => SystemProgram.decode({ ...valid, data: [1, 0] })).toThrow('Invalid data length 2');
+    expect(() => SystemProgram.decode({ ...valid, data: [9] })).toThrow('Unknown system instruction 9');
+    expect(() => SystemProgram.decode({ ...valid, data: [] })).toThrow('empty');
+    expect(() => SystemProgram.createAccount(account, 'abcd', 0)).toThrow('txid must be 32 bytes');
+  });
+});
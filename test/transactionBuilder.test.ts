@@ -0,0 +1,94 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { hexToBytes } from '@noble/hashes/utils';
+import { TransactionBuilder } from '../src/transactionBuilder';
+import { KeypairSigner } from '../src/signer';
+import { hashMessage } from '../src/message';
+import { Instruction, Pubkey } from '../src/types';
+
+describe('TransactionBuilder', () => {
+  const alice = new KeypairSigner(hexToBytes('04734278f0a035427c79b76726233aeb3832f45562f3980ec53d6aedf0f3d8df'));
+  const bob = new KeypairSigner(hexToBytes('0101010101010101010101010101010101010101010101010101010101010101'));
+  const program = new Pubkey(new Uint8Array(32).fill(7));
+  const readonlyAccount = new Pubkey(new Uint8Array(32).fill(9));
+
+  it('derives and deduplicates signers in order of first appearance', () => {
+    const message = new TransactionBuilder()
+      .addInstruction(Pubkey.systemProgram(), [{ pubkey: bob.pubkey, is_signer: true, is_writable: true }], [0])
+      .addInstruction(program, [
+        { pubkey: alice.pubkey, is_signer: true, is_writable: false },
+        { pubkey: bob.pubkey, is_signer: true, is_writable: true },
+        { pubkey: readonlyAccount, is_signer: false, is_writable: false },
+      ], [1])
+      .compileMessage();
+
+    expect(message.signers.map(s => s.toString())).toEqual([bob.pubkey.toString(), alice.pubkey.toString()]);
+  });
+
+  it('merges signer and writable flags for repeated accounts', () => {
+    const message = new TransactionBuilder()
+      .addInstruction(program, [{ pubkey: alice.pubkey, is_signer: true, is_writable: false }], [])
+      .addInstruction(program, [{ pubkey: alice.pubkey, is_signer: false, is_writable: true }], [])
+      .compileMessage();
+
+    message.instructions.forEach(instruction => {
+      expect(instruction.accounts[0]).toMatchObject({ is_signer: true, is_writable: true });
+    });
+  });
+
+  it('does not mutate the instructions it was given', () => {
+    const instruction: Instruction = {
+      program_id: program,
+      accounts: [{ pubkey: alice.pubkey, is_signer: false, is_writable: false }],
+      data: [],
+    };
+    new TransactionBuilder()
+      .add(instruction)
+      .addInstruction(program, [{ pubkey: alice.pubkey, is_signer: true, is_writable: true }], [])
+      .compileMessage();
+
+    expect(instruction.accounts[0]).toMatchObject({ is_signer: false, is_writable: false });
+  });
+
+  it('validates the limits of the encoded message', () => {
+    expect(() => new TransactionBuilder().compileMessage()).toThrow('at least one instruction');
+
+    const tooManyAccounts = new Array(256).fill({ pubkey: readonlyAccount, is_signer: false, is_writable: false });
+    expect(() => new TransactionBuilder().addInstruction(program, tooManyAccounts, []).compileMessage())
+      .toThrow('Instruction 0 has 256 accounts, maximum is 255');
+
+    const builder = new TransactionBuilder();
+    for (let i = 0; i < 256; i++) {
+      builder.addInstruction(program, [], []);
+    }
+    expect(() => builder.compileMessage()).toThrow('256 instructions, maximum is 255');
+  });
+
+  it('signs every derived signer', async () => {
+    const transaction = await new TransactionBuilder()
+      .addInstruction(program, [
+        { pubkey: alice.pubkey, is_signer: true, is_writable: true },
+        { pubkey: bob.pubkey, is_signer: true, is_writable: false },
+      ], [1, 2, 3])
+      .sign([bob, alice]);
+
+    const messageHash = hashMessage(transaction.message);
+    expect(transaction.version).toBe(0);
+    expect(await secp256k1.schnorr.verify(transaction.signatures[0], messageHash, alice.pubkey.bytes)).toBe(true);
+    expect(await secp256k1.schnorr.verify(transaction.signatures[1], messageHash, bob.pubkey.bytes)).toBe(true);
+  });
+
+  it('reports every missing signer before signing', async () => {
+    const sign = jest.spyOn(alice, 'sign');
+    const builder = new TransactionBuilder().addInstruction(program, [
+      { pubkey: alice.pubkey, is_signer: true, is_writable: true },
+      { pubkey: bob.pubkey, is_signer: true, is_writable: false },
+      { pubkey: readonlyAccount, is_signer: true, is_writable: false },
+    ], []);
+
+    await expect(builder.sign([alice])).rejects.toThrow(
+      `Missing signers for ${bob.pubkey.toString()}, ${readonlyAccount.toString()}`
+    );
+    expect(sign).not.toHaveBeenCalled();
+    sign.mockRestore();
+  });
+});
@@ -0,0 +1,274 @@
+import { ArchRpcClient } from '../src/index';
+import { ArchNodePool } from '../src/nodePool';
+import { MockArchNode } from '../src/mockNode';
+import { ArchHttpError, ArchJsonRpcError, ArchTimeoutError } from '../src/errors';
+import { AxiosTransport, FetchTransport, InMemoryTransport, WebSocketTransport, createHttpTransport } from '../src/transport';
+import { WebSocketLike } from '../src/subscriptions';
+import { Pubkey } from '../src/types';
+
+class FakeWebSocket implements WebSocketLike {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  closed = false;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+    // Open on the next tick, like a real socket.
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.({});
+    }, 0);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  // Answers every request in the last message with its id in the result.
+  reply(): void {
+    const message = this.sent[this.sent.length - 1];
+    const answer = (request: any) => ({ jsonrpc: '2.0', id: request.id, result: `${request.method}:${request.id}` });
+    this.onmessage?.({ data: JSON.stringify(Array.isArray(message) ? message.map(answer).reverse() : answer(message)) });
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+}
+
+// A socket that never opens, like a node that accepts the TCP connection and stalls.
+class StalledWebSocket implements WebSocketLike {
+  static instances: StalledWebSocket[] = [];
+  readyState = 0;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(readonly url: string) {
+    StalledWebSocket.instances.push(this);
+  }
+
+  send(): void {
+    throw new Error('not open');
+  }
+
+  close(): void {}
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    if (predicate()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error('Timed out waiting for condition');
+}
+
+describe('transports', () => {
+  describe('FetchTransport', () => {
+    function respond(status: number, body: string): jest.Mock {
+      return jest.fn().mockResolvedValue({ ok: status < 300, status, text: async () => body });
+    }
+
+    it('posts JSON-RPC envelopes and returns the result', async () => {
+      const fetch = respond(200, JSON.stringify({ jsonrpc: '2.0', id: '1', result: 42 }));
+      const client = new ArchRpcClient(new FetchTransport('http://node', { fetch, headers: { 'X-Api-Key': 'k' } }));
+      client.use({ beforeSend: context => { context.headers['X-Trace'] = 't'; } });
+
+      expect(await client.getBlockCount()).toBe(42);
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('http://node');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'X-Api-Key': 'k', 'X-Trace': 't' });
+      expect(JSON.parse(init.body)).toEqual({ jsonrpc: '2.0', id: '1', method: 'get_block_count', params: [] });
+    });
+
+    it('maps HTTP failures to ArchHttpError, or the JSON-RPC error in the body', async () => {
+      const http = new ArchRpcClient(new FetchTransport('http://node', { fetch: respond(502, 'Bad Gateway') }));
+      await expect(http.getBlockCount()).rejects.toMatchObject({
+        name: 'ArchHttpError',
+        status: 502,
+        body: 'Bad Gateway',
+      });
+
+      const body = JSON.stringify({ jsonrpc: '2.0', id: '1', error: { code: -32000, message: 'busy' } });
+      const rpc = new ArchRpcClient(new FetchTransport('http://node', { fetch: respond(503, body) }));
+      const error = await rpc.getBlockCount().catch(e => e);
+      expect(error).toBeInstanceOf(ArchJsonRpcError);
+      expect(error).not.toBeInstanceOf(ArchHttpError);
+      expect(error.code).toBe(-32000);
+    });
+
+    it('aborts requests that exceed the timeout', async () => {
+      const fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      const client = new ArchRpcClient(new FetchTransport('http://node', { fetch: fetch as any, timeout: 10 }));
+
+      const error = await client.getBlockCount().catch(e => e);
+      expect(error).toBeInstanceOf(ArchTimeoutError);
+      expect(error.timeout).toBe(10);
+    });
+
+    it('does not send when the signal is already aborted', async () => {
+      const fetch = respond(200, JSON.stringify({ jsonrpc: '2.0', id: '1', result: 42 }));
+      const transport = new FetchTransport('http://node', { fetch });
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+
+      await expect(transport.request({ body: {}, headers: {}, signal: controller.signal })).rejects.toThrow('cancelled');
+      await expect(new ArchRpcClient(transport).getBlockCount({ signal: controller.signal })).rejects.toThrow('cancelled');
+      await expect(new ArchRpcClient(transport).batch([{ method: 'get_block_count', params: [] }], { signal: controller.signal }))
+        .rejects.toThrow('cancelled');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createHttpTransport', () => {
+    it('falls back to fetch when axios is not installed', () => {
+      jest.isolateModules(() => {
+        jest.doMock('axios', () => {
+          throw new Error("Cannot find module 'axios'");
+        });
+        const transport = require('../src/transport');
+        const { ArchRpcClient: IsolatedClient } = require('../src/index');
+
+        expect(transport.createHttpTransport('http://node')).toBeInstanceOf(transport.FetchTransport);
+        expect(() => new transport.AxiosTransport('http://node')).toThrow('needs the axios package');
+        expect(() => new IsolatedClient('http://node')).not.toThrow();
+      });
+      jest.dontMock('axios');
+    });
+
+    it('uses axios when it is installed', () => {
+      expect(createHttpTransport('http://node')).toBeInstanceOf(AxiosTransport);
+    });
+  });
+
+  describe('InMemoryTransport', () => {
+    it('runs a client against a mock node without a port', async () => {
+      const node = new MockArchNode();
+      const account = new Pubkey(new Uint8Array(32).fill(1));
+      node.setAccount(account, { data: [7] });
+      const transport = node.transport();
+      const client = new ArchRpcClient(transport, { autoBatch: true });
+
+      const [info, count] = await Promise.all([client.readAccountInfo(account), client.getBlockCount()]);
+
+      expect(info.data).toEqual([7]);
+      expect(count).toBe(1);
+      expect(transport.requests).toHaveLength(1);
+      expect((transport.requests[0] as any[]).map(request => request.method)).toEqual(['read_account_info', 'get_block_count']);
+    });
+
+    it('passes the handler\'s errors to the client', async () => {
+      const client = new ArchRpcClient(new InMemoryTransport(() => ({ jsonrpc: '2.0', id: '1' })));
+      await expect(client.getBlockCount()).rejects.toMatchObject({ name: 'ArchDecodeError' });
+    });
+  });
+
+  describe('WebSocketTransport', () => {
+    beforeEach(() => {
+      FakeWebSocket.instances = [];
+    });
+
+    it('matches responses to requests by id, including batches', async () => {
+      const transport = new WebSocketTransport('ws://node', { WebSocket: FakeWebSocket });
+      const first = new ArchRpcClient(transport);
+      const second = new ArchRpcClient(transport);
+
+      const single = first.request('get_version', []);
+      await waitFor(() => FakeWebSocket.instances[0]?.sent.length === 1);
+      const socket = FakeWebSocket.instances[0];
+      const batch = second.batch([{ method: 'get_block_hash', params: 1 }, { method: 'get_block_hash', params: 2 }]);
+      await waitFor(() => socket.sent.length === 2);
+
+      socket.reply();
+      expect((await batch).map(item => item.ok && item.result)).toEqual([
+        `get_block_hash:${socket.sent[1][0].id}`,
+        `get_block_hash:${socket.sent[1][1].id}`,
+      ]);
+      expect(socket.sent[0].id).not.toBe('1');
+      socket.sent.pop();
+      socket.reply();
+      expect(await single).toBe(`get_version:${socket.sent[0].id}`);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('times out, rejects pending requests when the socket drops, and reconnects', async () => {
+      const transport = new WebSocketTransport('ws://node', { WebSocket: FakeWebSocket, timeout: 10 });
+      const client = new ArchRpcClient(transport);
+
+      await expect(client.request('get_version', [])).rejects.toBeInstanceOf(ArchTimeoutError);
+
+      const pending = client.request('get_version', []);
+      await waitFor(() => FakeWebSocket.instances[0].sent.length === 2);
+      FakeWebSocket.instances[0].drop();
+      await expect(pending).rejects.toMatchObject({ name: 'ArchTransportError' });
+
+      const retried = client.request('get_version', []);
+      await waitFor(() => FakeWebSocket.instances[1]?.sent.length === 1);
+      FakeWebSocket.instances[1].reply();
+      await expect(retried).resolves.toMatch(/^get_version:/);
+
+      client.close();
+      expect(FakeWebSocket.instances[1].closed).toBe(true);
+    });
+
+    it('fails only the oldest request on an error response without an id', async () => {
+      const transport = new WebSocketTransport('ws://node', { WebSocket: FakeWebSocket });
+      const first = new ArchRpcClient(transport);
+      const second = new ArchRpcClient(transport);
+
+      const single = first.request('get_version', []);
+      await waitFor(() => FakeWebSocket.instances[0]?.sent.length === 1);
+      const socket = FakeWebSocket.instances[0];
+      const batch = second.batch([{ method: 'get_block_hash', params: 1 }]);
+      await waitFor(() => socket.sent.length === 2);
+      socket.onmessage?.({
+        data: JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }),
+      });
+
+      await expect(single).rejects.toBeInstanceOf(ArchJsonRpcError);
+      socket.reply();
+      expect(await batch).toEqual([{ ok: true, result: `get_block_hash:${socket.sent[1][0].id}` }]);
+    });
+
+    it('applies the timeout and signal while the socket is connecting', async () => {
+      const transport = new WebSocketTransport('ws://node', { WebSocket: StalledWebSocket, timeout: 10 });
+      const client = new ArchRpcClient(transport);
+
+      await expect(client.request('get_version', [])).rejects.toBeInstanceOf(ArchTimeoutError);
+
+      const controller = new AbortController();
+      const aborted = client.request('get_version', [], { signal: controller.signal });
+      controller.abort(new Error('cancelled'));
+      await expect(aborted).rejects.toThrow('cancelled');
+      expect(StalledWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  it('builds a transport per node in a pool', async () => {
+    const nodes = [new MockArchNode(), new MockArchNode()];
+    const urls = ['mock://a', 'mock://b'];
+    const transport = jest.fn((url: string) => nodes[urls.indexOf(url)].transport());
+    await nodes[1].produceBlock();
+
+    const pool = new ArchNodePool(urls, { transport });
+
+    expect(await pool.getBlockCount()).toBe(2);
+    expect(transport.mock.calls.map(([url]) => url)).toEqual(['mock://a', 'mock://b']);
+  });
+});